@@ -0,0 +1,200 @@
+/**
+ * Mock backend API for local development and manual testing
+ *
+ * Implements the scene, preferences and token refresh endpoints from
+ * docs/BACKEND_INTEGRATION.md with in-memory data (lost on restart).
+ *
+ * Usage:
+ *   npm run mock-api                       # http://localhost:5000
+ *   VITE_API_URL=http://localhost:5000 npm run dev
+ *
+ * Environment:
+ *   PORT            - Port to listen on (default 5000)
+ *   TOKEN_TTL_SEC   - Access token lifetime, short value exercises token refresh (default 60)
+ */
+const http = require('http');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const PORT = Number(process.env.PORT) || 5000;
+const TOKEN_TTL_MS = (Number(process.env.TOKEN_TTL_SEC) || 60) * 1000;
+
+const USER = { id: 'mock-user', email: 'mock@example.com', displayName: 'Mock User' };
+const DEFAULT_CONFIG = JSON.parse(fs.readFileSync(path.join(__dirname, '../public/config/map.json'), 'utf8'));
+
+/** Valid access tokens and their expiry */
+const tokens = new Map();
+/** Scenes by ID */
+const scenes = new Map();
+let preferences = {};
+
+function now() {
+  return new Date().toISOString();
+}
+
+/** Empty world of a new scene (like the real backend, see POST /api/scenes in docs) */
+function createEmptyConfig(backgroundFolder) {
+  return {
+    version: DEFAULT_CONFIG.version,
+    worldWidth: 2500,
+    worldHeight: 640,
+    playerStartX: 250,
+    playerStartY: 540,
+    background: { folder: backgroundFolder || 'forest_summer' },
+    placedItems: [],
+    dialogZones: [],
+    placedNPCs: [],
+    placedSocials: [],
+  };
+}
+
+function createScene(name, config) {
+  const timestamp = now();
+  const scene = {
+    id: crypto.randomUUID(),
+    userId: USER.id,
+    name,
+    backgroundFolder: config.background ? config.background.folder : 'forest_summer',
+    isPublic: false,
+    config: JSON.parse(JSON.stringify(config)),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+  scenes.set(scene.id, scene);
+  return scene;
+}
+
+function summary({ config: _config, ...scene }) {
+  return scene;
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (e) {
+        reject(e);
+      }
+    });
+  });
+}
+
+function issueToken(res) {
+  const accessToken = crypto.randomBytes(16).toString('hex');
+  const expiresAt = Date.now() + TOKEN_TTL_MS;
+  tokens.set(accessToken, expiresAt);
+  // Refresh cookie is not checked, every refresh succeeds for the mock user
+  res.setHeader('Set-Cookie', 'refreshToken=mock; HttpOnly; Path=/api/auth; SameSite=Lax');
+  return { user: USER, accessToken, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+function isAuthorized(req) {
+  const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+  const expiresAt = tokens.get(token);
+  return expiresAt !== undefined && Date.now() < expiresAt;
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const parts = url.pathname.split('/').filter(Boolean); // ['api', 'scenes', ':id', ...]
+  const method = req.method;
+
+  if (method === 'POST' && url.pathname === '/api/auth/refresh') {
+    return send(res, 200, issueToken(res));
+  }
+
+  if (!isAuthorized(req)) {
+    return send(res, 401, { message: 'Access token missing or expired' });
+  }
+
+  if (url.pathname === '/api/users/me/preferences') {
+    if (method === 'GET') return send(res, 200, preferences);
+    if (method === 'PATCH') {
+      preferences = { ...preferences, ...await readBody(req) };
+      return send(res, 200, preferences);
+    }
+  }
+
+  if (parts[0] !== 'api' || parts[1] !== 'scenes') {
+    return send(res, 404, { message: 'Not found' });
+  }
+
+  const id = parts[2];
+  if (!id) {
+    if (method === 'GET') {
+      const limit = Number(url.searchParams.get('limit')) || 20;
+      const offset = Number(url.searchParams.get('offset')) || 0;
+      const all = [...scenes.values()];
+      return send(res, 200, { scenes: all.slice(offset, offset + limit).map(summary), total: all.length });
+    }
+    if (method === 'POST') {
+      const body = await readBody(req);
+      return send(res, 201, createScene(body.name || 'Untitled', createEmptyConfig(body.backgroundFolder)));
+    }
+  }
+
+  const scene = scenes.get(id);
+  if (!scene) {
+    return send(res, 404, { message: `Scene ${id} not found` });
+  }
+
+  if (parts[3] === 'duplicate' && method === 'POST') {
+    const body = await readBody(req);
+    return send(res, 201, createScene(body.name || `${scene.name} (copy)`, scene.config));
+  }
+
+  switch (method) {
+    case 'GET':
+      return send(res, 200, scene);
+    case 'PUT':
+    case 'PATCH': {
+      const body = await readBody(req);
+      // Optimistic concurrency: client sends updatedAt of the version it edited
+      if (body.updatedAt && body.updatedAt !== scene.updatedAt) {
+        return send(res, 409, { message: 'Scene was changed meanwhile', scene: summary(scene) });
+      }
+      if (body.name !== undefined) scene.name = body.name;
+      if (body.backgroundFolder !== undefined) scene.backgroundFolder = body.backgroundFolder;
+      if (body.config !== undefined) scene.config = body.config;
+      scene.updatedAt = now();
+      return send(res, 200, scene);
+    }
+    case 'DELETE':
+      scenes.delete(id);
+      return send(res, 200, { success: true });
+  }
+
+  return send(res, 405, { message: 'Method not allowed' });
+}
+
+const server = http.createServer((req, res) => {
+  // CORS for the Vite dev server (credentials are needed for the refresh cookie)
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+
+  handle(req, res).catch(error => {
+    console.error(error);
+    send(res, 500, { message: error.message });
+  });
+});
+
+createScene('Default scene', DEFAULT_CONFIG);
+
+server.listen(PORT, () => {
+  console.log(`Mock API listening on http://localhost:${PORT} (token TTL ${TOKEN_TTL_MS / 1000}s)`);
+});
@@ -6,6 +6,7 @@
 
 import { mount } from 'svelte';
 import CharacterBuilder from './ui/builder/CharacterBuilder.svelte';
+import { loadPreferences } from './data/preferences';
 
 // Wait for DOM to be ready
 const builderRoot = document.getElementById('builder-root');
@@ -14,7 +15,9 @@ if (!builderRoot) {
   throw new Error('builder-root element not found!');
 }
 
-// Mount the CharacterBuilder component
-mount(CharacterBuilder, {
-  target: builderRoot,
+// Mount the CharacterBuilder component once saved character is loaded
+loadPreferences().then(() => {
+  mount(CharacterBuilder, {
+    target: builderRoot,
+  });
 });
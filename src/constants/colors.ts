@@ -112,3 +112,8 @@ export const PANEL_COLORS = {
   MEDIUM: '#2d2d50',
   BORDER: '#4a4a5a',
 } as const;
+
+/**
+ * Frame around the game (scenes can set their own, see MapConfig.gameFrameColor)
+ */
+export const DEFAULT_GAME_FRAME_COLOR = '#2a1a0a';
@@ -19,3 +19,17 @@ export const NARROW_SCREEN_BREAKPOINT = 400;
 
 /** Vertical offset of dialog bubble above player sprite */
 export const DIALOG_BUBBLE_VERTICAL_OFFSET = 70;
+
+/** Maximum characters on one dialog page (longer texts are split at word boundaries) */
+export const DIALOG_PAGE_MAX_CHARS = 160;
+
+/** Line that starts a new dialog page when written on its own */
+export const DIALOG_PAGE_BREAK = '---';
+
+/** Typewriter reveal speed of dialog text */
+export const DIALOG_CHARS_PER_SECOND = 40;
+
+// ==================== Scene Library ====================
+
+/** Maximum character length for scene names (matches backend limit) */
+export const MAX_SCENE_NAME_LENGTH = 100;
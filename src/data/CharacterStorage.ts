@@ -1,4 +1,5 @@
 import { type ModularCharacterSelection } from './modularConfig';
+import { getPreferences, updatePreferences } from './preferences';
 
 /**
  * JSON structure for backend storage
@@ -15,24 +16,33 @@ export interface CharacterSaveData {
 }
 
 /**
- * Get saved character selection from localStorage
+ * Get saved character selection from user preferences
  */
 export function getSavedCharacterSelection(): ModularCharacterSelection | null {
-  const saved = localStorage.getItem('characterSelection');
-  if (!saved) return null;
-  
-  try {
-    const parsed = JSON.parse(saved) as ModularCharacterSelection;
-    if (parsed.gender && (parsed.gender === 'male' || parsed.gender === 'female')) {
-      return {
-        ...parsed,
-        clothing: Array.isArray(parsed.clothing) ? parsed.clothing : [],
-      };
-    }
-  } catch (e) {
-    console.warn('Failed to load saved character selection:', e);
-  }
-  return null;
+  const saved = getPreferences().character;
+  return saved ? fromSaveData(saved) : null;
+}
+
+/**
+ * Save character selection to user preferences
+ */
+export function saveCharacterSelection(selection: ModularCharacterSelection): Promise<void> {
+  return updatePreferences({ character: toSaveData(selection) });
+}
+
+/**
+ * Check if the player plays as the saved modular character
+ * (selected in character selection and the character exists)
+ */
+export function isModularPlayerSelected(): boolean {
+  return getPreferences().useModularPlayer === true && getSavedCharacterSelection() !== null;
+}
+
+/**
+ * Choose between the modular character and a skin in user preferences
+ */
+export function setModularPlayerSelected(useModularPlayer: boolean): Promise<void> {
+  return updatePreferences({ useModularPlayer });
 }
 
 /**
@@ -0,0 +1,59 @@
+import { parseMapConfig, type MapConfig } from './mapConfig';
+
+/** localStorage key prefix for builder drafts (one draft per scene) */
+const DRAFT_KEY_PREFIX = 'builderDraft:';
+
+/**
+ * Unsaved builder work stored in localStorage for crash recovery
+ */
+export interface BuilderDraft {
+  sceneId: string;
+  config: MapConfig;
+  savedAt: string;  // ISO timestamp
+}
+
+/**
+ * Get saved builder draft for a scene from localStorage
+ * Draft config is migrated to the current MapConfig version
+ */
+export function getBuilderDraft(sceneId: string): BuilderDraft | null {
+  const saved = localStorage.getItem(DRAFT_KEY_PREFIX + sceneId);
+  if (!saved) return null;
+
+  try {
+    const parsed = JSON.parse(saved) as BuilderDraft;
+    return {
+      sceneId,
+      config: parseMapConfig(parsed.config),
+      savedAt: parsed.savedAt,
+    };
+  } catch (e) {
+    console.warn('Failed to load builder draft:', e);
+  }
+  return null;
+}
+
+/**
+ * Save builder draft for a scene to localStorage
+ */
+export function saveBuilderDraft(sceneId: string, config: MapConfig): void {
+  const draft: BuilderDraft = {
+    sceneId,
+    config,
+    savedAt: new Date().toISOString(),
+  };
+
+  try {
+    localStorage.setItem(DRAFT_KEY_PREFIX + sceneId, JSON.stringify(draft));
+  } catch (e) {
+    // Quota exceeded or storage disabled - autosave is best effort
+    console.warn('Failed to save builder draft:', e);
+  }
+}
+
+/**
+ * Remove builder draft for a scene from localStorage
+ */
+export function clearBuilderDraft(sceneId: string): void {
+  localStorage.removeItem(DRAFT_KEY_PREFIX + sceneId);
+}
@@ -0,0 +1,44 @@
+/**
+ * localStorage key prefix for collected items (one inventory per scene)
+ * Progress of play on this device, not a user preference, so it's kept
+ * in localStorage directly like builder drafts (backend API has no
+ * endpoint for it)
+ */
+const INVENTORY_KEY_PREFIX = 'inventory:';
+
+/**
+ * Get IDs of items collected in a scene from localStorage
+ */
+export function getCollectedItemIds(sceneId: string): string[] {
+  const saved = localStorage.getItem(INVENTORY_KEY_PREFIX + sceneId);
+  if (!saved) return [];
+
+  try {
+    const parsed: unknown = JSON.parse(saved);
+    if (Array.isArray(parsed)) {
+      return parsed.filter((id): id is string => typeof id === 'string');
+    }
+  } catch (e) {
+    console.warn('Failed to load inventory:', e);
+  }
+  return [];
+}
+
+/**
+ * Save IDs of items collected in a scene to localStorage
+ */
+export function saveCollectedItemIds(sceneId: string, ids: string[]): void {
+  try {
+    localStorage.setItem(INVENTORY_KEY_PREFIX + sceneId, JSON.stringify(ids));
+  } catch (e) {
+    // Quota exceeded or storage disabled - items stay collected for this session
+    console.warn('Failed to save inventory:', e);
+  }
+}
+
+/**
+ * Forget items collected in a scene (they are shown again)
+ */
+export function clearCollectedItemIds(sceneId: string): void {
+  localStorage.removeItem(INVENTORY_KEY_PREFIX + sceneId);
+}
@@ -1,8 +1,12 @@
 /**
  * Background configuration and management
- * Defines available backgrounds with custom parallax scroll factors
+ * Defines available backgrounds with custom parallax scroll factors,
+ * scenes pick one of them in their MapConfig
  */
 
+import { getPreferences, updatePreferences } from './preferences';
+import type { MapBackground } from './mapConfig';
+
 export interface BackgroundConfig {
   name: string;
   folder: string;
@@ -72,53 +76,76 @@ export const AVAILABLE_BACKGROUNDS: BackgroundConfig[] = [
   },
 ];
 
-class BackgroundManager {
-  private currentIndex: number = 0;
+/** Background used by scenes that don't set their own */
+export const DEFAULT_BACKGROUND_FOLDER = AVAILABLE_BACKGROUNDS[0].folder;
 
-  constructor() {
-    // Load from localStorage on initialization
-    const stored = localStorage.getItem('background');
-    if (stored) {
-      const index = AVAILABLE_BACKGROUNDS.findIndex(bg => bg.folder === stored);
-      if (index !== -1) {
-        this.currentIndex = index;
-      }
-    }
-  }
+/**
+ * Get background from the catalog by folder name
+ */
+export function getBackgroundConfig(folder: string): BackgroundConfig | undefined {
+  return AVAILABLE_BACKGROUNDS.find(bg => bg.folder === folder);
+}
 
-  /**
-   * Get current background folder name
-   */
-  getBackground(): string {
-    return AVAILABLE_BACKGROUNDS[this.currentIndex].folder;
+/**
+ * Get background of a scene with its overrides applied
+ * Unknown folder falls back to the default background (without overrides)
+ */
+export function resolveSceneBackground(background: MapBackground | undefined): BackgroundConfig {
+  const catalogConfig = background && getBackgroundConfig(background.folder);
+  if (!background || !catalogConfig) {
+    return getBackgroundConfig(DEFAULT_BACKGROUND_FOLDER)!;
   }
 
+  const { scrollFactors, groundHeight } = background;
+  return {
+    ...catalogConfig,
+    // Scroll factors belong to layers, so they only apply when the layer count matches
+    scrollFactors: scrollFactors?.length === catalogConfig.scrollFactors.length ? scrollFactors : catalogConfig.scrollFactors,
+    groundHeight: groundHeight ?? catalogConfig.groundHeight,
+  };
+}
+
+/**
+ * Get item groups usable in a scene (items of other groups don't match its background)
+ */
+export function getSceneItemGroups(background: MapBackground | undefined): string[] {
+  return resolveSceneBackground(background).itemGroups ?? ['shared'];
+}
+
+/**
+ * BackgroundManager - Background shown to the visitor
+ *
+ * Scenes show their own background. Visitor can explicitly opt in to
+ * another background from the catalog (remembered in preferences).
+ */
+class BackgroundManager {
   /**
-   * Get current background configuration
+   * Get background chosen by the visitor instead of the scene background (null = scene background)
    */
-  getCurrentConfig(): BackgroundConfig {
-    return AVAILABLE_BACKGROUNDS[this.currentIndex];
+  getVisitorOverride(): BackgroundConfig | null {
+    const folder = getPreferences().backgroundOverride;
+    return (folder && getBackgroundConfig(folder)) || null;
   }
 
   /**
-   * Set background by folder name
+   * Set background shown instead of scene backgrounds (null = show scene background)
    */
-  setBackground(folder: string): void {
-    const index = AVAILABLE_BACKGROUNDS.findIndex(bg => bg.folder === folder);
-    if (index !== -1) {
-      this.currentIndex = index;
-      localStorage.setItem('background', folder);
+  setVisitorOverride(folder: string | null): void {
+    if (folder === null || getBackgroundConfig(folder)) {
+      updatePreferences({ backgroundOverride: folder });
     }
   }
 
   /**
-   * Toggle to next background
+   * Get background to show for a scene
+   * @param allowVisitorOverride - Whether visitor's background replaces the scene one (game only, never in builder)
    */
-  toggleBackground(): BackgroundConfig {
-    this.currentIndex = (this.currentIndex + 1) % AVAILABLE_BACKGROUNDS.length;
-    const config = AVAILABLE_BACKGROUNDS[this.currentIndex];
-    localStorage.setItem('background', config.folder);
-    return config;
+  getSceneConfig(background: MapBackground | undefined, allowVisitorOverride: boolean = false): BackgroundConfig {
+    const override = allowVisitorOverride ? this.getVisitorOverride() : null;
+    if (override && override.folder !== background?.folder) {
+      return override;
+    }
+    return resolveSceneBackground(background);
   }
 
   /**
@@ -127,23 +154,6 @@ class BackgroundManager {
   getAllBackgrounds(): readonly BackgroundConfig[] {
     return AVAILABLE_BACKGROUNDS;
   }
-
-  /**
-   * Set background by index
-   */
-  setBackgroundByIndex(index: number): void {
-    if (index >= 0 && index < AVAILABLE_BACKGROUNDS.length) {
-      this.currentIndex = index;
-      localStorage.setItem('background', AVAILABLE_BACKGROUNDS[index].folder);
-    }
-  }
-
-  /**
-   * Get current background index
-   */
-  getCurrentIndex(): number {
-    return this.currentIndex;
-  }
 }
 
 export const backgroundManager = new BackgroundManager();
@@ -0,0 +1,139 @@
+/**
+ * NPC dialog trees
+ * Factories, lookups and immutable edits of branching conversations
+ */
+
+import type { DialogChoice, DialogNode, DialogTree, LocalizedText } from '../types/DialogTypes';
+
+// ==================== Factories ====================
+
+/**
+ * Generate unique dialog node ID
+ */
+export function generateDialogNodeId(): string {
+  return `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Generate unique dialog choice ID
+ */
+export function generateDialogChoiceId(): string {
+  return `choice_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Create end node without choices
+ */
+export function createDialogNode(texts: LocalizedText[] = []): DialogNode {
+  return {
+    id: generateDialogNodeId(),
+    texts,
+    choices: [],
+    nextNodeId: null,
+  };
+}
+
+/**
+ * Create conversation with a single node
+ */
+export function createDialogTree(texts: LocalizedText[] = []): DialogTree {
+  const node = createDialogNode(texts);
+  return { startNodeId: node.id, nodes: [node] };
+}
+
+// ==================== Lookups ====================
+
+/**
+ * Find node by ID
+ */
+export function getDialogNode(tree: DialogTree, nodeId: string | null): DialogNode | undefined {
+  return nodeId === null ? undefined : tree.nodes.find(node => node.id === nodeId);
+}
+
+/**
+ * Check whether any node of the conversation has text
+ */
+export function hasDialogContent(tree: DialogTree | undefined): boolean {
+  return !!tree?.nodes.some(node => node.texts.some(text => text.content.trim().length > 0));
+}
+
+// ==================== Edits ====================
+
+/**
+ * Set content of a text in one language (text is added if missing)
+ */
+export function setLocalizedContent(texts: LocalizedText[], language: string, content: string): LocalizedText[] {
+  return texts.some(text => text.language === language)
+    ? texts.map(text => text.language === language ? { ...text, content } : text)
+    : [...texts, { language, title: '', content }];
+}
+
+/**
+ * Replace node returned by the updater
+ */
+export function updateDialogNode(tree: DialogTree, nodeId: string, updater: (node: DialogNode) => DialogNode): DialogTree {
+  return {
+    ...tree,
+    nodes: tree.nodes.map(node => node.id === nodeId ? updater(node) : node),
+  };
+}
+
+/**
+ * Add empty end node
+ */
+export function addDialogNode(tree: DialogTree, node: DialogNode = createDialogNode()): DialogTree {
+  return { ...tree, nodes: [...tree.nodes, node] };
+}
+
+/**
+ * Remove node, links pointing to it end the conversation instead
+ * Start node can't be removed
+ */
+export function removeDialogNode(tree: DialogTree, nodeId: string): DialogTree {
+  if (nodeId === tree.startNodeId) return tree;
+
+  const unlink = (targetId: string | null) => targetId === nodeId ? null : targetId;
+  return {
+    ...tree,
+    nodes: tree.nodes
+      .filter(node => node.id !== nodeId)
+      .map(node => ({
+        ...node,
+        nextNodeId: unlink(node.nextNodeId),
+        choices: node.choices.map(choice => ({ ...choice, nextNodeId: unlink(choice.nextNodeId) })),
+      })),
+  };
+}
+
+/**
+ * Replace choice returned by the updater
+ */
+export function updateDialogChoice(
+  tree: DialogTree,
+  nodeId: string,
+  choiceId: string,
+  updater: (choice: DialogChoice) => DialogChoice
+): DialogTree {
+  return updateDialogNode(tree, nodeId, node => ({
+    ...node,
+    choices: node.choices.map(choice => choice.id === choiceId ? updater(choice) : choice),
+  }));
+}
+
+/**
+ * Add choice that ends the conversation
+ */
+export function addDialogChoice(tree: DialogTree, nodeId: string): DialogTree {
+  const choice: DialogChoice = { id: generateDialogChoiceId(), texts: [], nextNodeId: null };
+  return updateDialogNode(tree, nodeId, node => ({ ...node, choices: [...node.choices, choice] }));
+}
+
+/**
+ * Remove choice from a node
+ */
+export function removeDialogChoice(tree: DialogTree, nodeId: string, choiceId: string): DialogTree {
+  return updateDialogNode(tree, nodeId, node => ({
+    ...node,
+    choices: node.choices.filter(choice => choice.id !== choiceId),
+  }));
+}
@@ -1,25 +1,15 @@
 import type { Language } from '../types/Language';
+import { DEFAULT_LANGUAGE } from '../types/Language';
+import { getPreferences, updatePreferences } from './preferences';
 
 class LocalizationManager {
-  private currentLanguage: Language = 'cs';
-
   setLanguage(lang: Language): void {
-    this.currentLanguage = lang;
-    localStorage.setItem('language', lang);
+    updatePreferences({ language: lang });
   }
 
+  /** Get current language (from user preferences, default language if not set) */
   getLanguage(): Language {
-    const stored = localStorage.getItem('language') as Language;
-    if (stored === 'cs' || stored === 'en') {
-      this.currentLanguage = stored;
-    }
-    return this.currentLanguage;
-  }
-
-  toggleLanguage(): Language {
-    this.currentLanguage = this.currentLanguage === 'cs' ? 'en' : 'cs';
-    this.setLanguage(this.currentLanguage);
-    return this.currentLanguage;
+    return getPreferences().language ?? DEFAULT_LANGUAGE;
   }
 }
 
@@ -5,8 +5,10 @@
 
 import { getItemScale } from './items';
 import { getItemDepth } from '../constants/depthLayers';
-import type { DialogZone, LocalizedText } from '../types/DialogTypes';
+import type { DialogInteraction, DialogTree, DialogTrigger, DialogZone, LocalizedText } from '../types/DialogTypes';
 import type { PlacedSocial } from '../types/SocialTypes';
+import type { Language } from '../types/Language';
+import type { NPCBehavior } from '../types/NPCBehaviorTypes';
 
 /**
  * Placed NPC in the game world
@@ -18,8 +20,17 @@ export interface PlacedNPC {
   y: number;
   scale?: number;
   flipX?: boolean;
-  dialog?: LocalizedText[]; // Optional dialog content
+  dialog?: DialogTree; // Optional conversation (see data/dialogTree.ts)
   triggerRadius?: number; // Proximity radius for dialog trigger (default: 200)
+  trigger?: DialogTrigger; // When dialog is shown in range (default: on enter)
+  behavior?: NPCBehavior; // Movement in the game, e.g. patrol path (default: stands idle)
+}
+
+/**
+ * Generate unique NPC ID
+ */
+export function generateNPCId(): string {
+  return `npc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
 /**
@@ -36,13 +47,29 @@ export interface PlacedItem {
   yOffset?: number; // Additional Y offset (for fine-tuning vertical position)
   physicsEnabled?: boolean; // Whether this item has physics body that blocks player (default: false)
   flipX?: boolean; // Horizontal flip (default: false)
+  collectible?: boolean; // Picked up when the player touches it, stays collected across reloads (default: false)
+}
+
+/**
+ * Parallax background of a scene
+ * Overrides replace values from the background catalog (see AVAILABLE_BACKGROUNDS)
+ */
+export interface MapBackground {
+  folder: string; // Background folder from AVAILABLE_BACKGROUNDS
+  scrollFactors?: number[]; // One per layer, ignored if the count doesn't match the background
+  groundHeight?: number; // Height of ground from bottom of the world
 }
 
 export interface MapConfig {
+  version?: number; // Schema version for migrations (see MAP_CONFIG_VERSION)
   worldWidth: number;
   worldHeight: number;
   playerStartX: number;
   playerStartY: number;
+  background: MapBackground;
+  gameFrameColor?: string; // Hex color of the frame around the game (default: DEFAULT_GAME_FRAME_COLOR)
+  languages?: Language[];  // Languages offered by the language picker and builder tabs (default: all LANGUAGES)
+  dialogInteraction?: DialogInteraction; // How dialogs without own trigger open (default: DEFAULT_DIALOG_INTERACTION)
   placedItems?: PlacedItem[];
   dialogZones?: DialogZone[];
   placedSocials?: PlacedSocial[];
@@ -50,7 +77,13 @@ export interface MapConfig {
 }
 
 /**
- * Load map configuration from JSON file
+ * ID of the scene bundled with the app (public/config/map.json)
+ * Used until the user opens another scene
+ */
+export const DEFAULT_SCENE_ID = 'default';
+
+/**
+ * Load map configuration bundled with the app (config of the default scene)
  * Throws error if loading fails
  */
 export async function loadMapConfig(): Promise<MapConfig> {
@@ -58,7 +91,20 @@ export async function loadMapConfig(): Promise<MapConfig> {
   if (!response.ok) {
     throw new Error(`Failed to load map config: ${response.status}`);
   }
-  const config: MapConfig = await response.json();
+  return parseMapConfig(await response.json());
+}
+
+/**
+ * Check that parsed JSON has the basic MapConfig structure
+ * Older configs are upgraded to the current schema version
+ * Throws error if the structure is invalid
+ */
+export function parseMapConfig(data: unknown): MapConfig {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Invalid map config structure');
+  }
+  
+  const config = migrateMapConfig(data as RawMapConfig);
   
   // Basic validation
   if (!config.worldWidth || !config.worldHeight) {
@@ -68,6 +114,109 @@ export async function loadMapConfig(): Promise<MapConfig> {
   return config;
 }
 
+// ============================================
+// Schema Versioning & Migrations
+// ============================================
+
+/**
+ * Current MapConfig schema version
+ * Bump when the structure changes and add a migration from the previous version
+ */
+export const MAP_CONFIG_VERSION = 3;
+
+/**
+ * Map config as stored in JSON, before migration to the current version
+ * Configs without version field are treated as version 0
+ */
+type RawMapConfig = Record<string, unknown> & { version?: number };
+
+/**
+ * Broken entities (null, primitives) are passed through migrations unchanged,
+ * validation reports and removes them
+ */
+const isRawEntity = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Migration steps keyed by the version they upgrade FROM
+ * Each step returns config in version + 1
+ */
+const MAP_CONFIG_MIGRATIONS: Record<number, (config: RawMapConfig) => RawMapConfig> = {
+  /**
+   * 0 → 1: Collections are always present, localized texts always have title,
+   * legacy placedFrames (removed text frames) are dropped
+   */
+  0: (config) => {
+    const { placedFrames: _placedFrames, ...rest } = config;
+    const withTitle = (texts: unknown) =>
+      Array.isArray(texts)
+        ? texts.map(text => ({ title: '', ...text }))
+        : texts;
+    
+    return {
+      ...rest,
+      placedItems: config.placedItems ?? [],
+      dialogZones: ((config.dialogZones as DialogZone[] | undefined) ?? []).map(zone => isRawEntity(zone)
+        ? { ...zone, texts: withTitle(zone.texts) ?? [] }
+        : zone
+      ),
+      placedSocials: config.placedSocials ?? [],
+      placedNPCs: ((config.placedNPCs as PlacedNPC[] | undefined) ?? []).map(npc =>
+        isRawEntity(npc) && npc.dialog ? { ...npc, dialog: withTitle(npc.dialog) } : npc
+      ),
+    };
+  },
+  /**
+   * 1 → 2: Background is part of the scene (it used to be picked by the visitor),
+   * older scenes get the background that was shown by default
+   */
+  1: (config) => ({
+    ...config,
+    background: config.background ?? { folder: 'forest_summer' },
+  }),
+  /**
+   * 2 → 3: NPC dialog is a conversation tree, flat texts become its only node
+   */
+  2: (config) => ({
+    ...config,
+    placedNPCs: ((config.placedNPCs as Array<Record<string, unknown>> | undefined) ?? []).map(npc =>
+      isRawEntity(npc) && Array.isArray(npc.dialog)
+        ? {
+            ...npc,
+            dialog: {
+              startNodeId: 'start',
+              nodes: [{ id: 'start', texts: npc.dialog as LocalizedText[], choices: [], nextNodeId: null }],
+            },
+          }
+        : npc
+    ),
+  }),
+};
+
+/**
+ * Upgrade map config step by step to the current schema version
+ * Throws error if config was saved by a newer version of the app
+ */
+export function migrateMapConfig(config: RawMapConfig): MapConfig {
+  let version = typeof config.version === 'number' ? config.version : 0;
+  
+  if (version > MAP_CONFIG_VERSION) {
+    throw new Error(`Map config version ${version} is newer than supported version ${MAP_CONFIG_VERSION}`);
+  }
+  
+  let migrated = config;
+  while (version < MAP_CONFIG_VERSION) {
+    const migration = MAP_CONFIG_MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No migration for map config version ${version}`);
+    }
+    migrated = migration(migrated);
+    version++;
+  }
+  
+  return { ...migrated, version } as unknown as MapConfig;
+}
+
 // ============================================
 // PlacedItem Factory
 // ============================================
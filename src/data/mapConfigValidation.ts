@@ -0,0 +1,540 @@
+/**
+ * Map configuration validation
+ * Checks a MapConfig against the asset registries and reports every problem
+ * with its JSON path, so broken entities are caught before render time
+ */
+
+import type { MapConfig, PlacedNPC } from './mapConfig';
+import { getItem, itemSupportsPhysics } from './items';
+import { getNPCDefinition } from './npcs/npcRegistry';
+import { getSocial } from './socials';
+import { getBackgroundConfig, getSceneItemGroups } from './background';
+import { DIALOG_TRIGGER_MODES, type DialogTree, type DialogTrigger, type LocalizedText } from '../types/DialogTypes';
+import {
+  NPC_CONDITION_TYPES,
+  NPC_PATROL_MODES,
+  NPC_STATE_TYPES,
+  type NPCBehavior,
+  type NPCPatrol
+} from '../types/NPCBehaviorTypes';
+import { MAX_DIALOG_CONTENT_LENGTH } from '../constants/uiConstants';
+import { isValidLanguageCode } from '../types/Language';
+import { handleError, createError, ERROR_CODES, type ErrorSeverity } from '../utils/errorHandler';
+
+/**
+ * Single validation problem
+ */
+export interface MapConfigIssue {
+  /** JSON path of the problem (e.g. 'placedItems[3].assetKey') */
+  path: string;
+  message: string;
+  /**
+   * - warning: entity is kept, may look or behave unexpectedly
+   * - error: entity is skipped when the scene is created
+   * - fatal: whole config is unusable
+   */
+  severity: ErrorSeverity;
+  /** ID of the entity the problem belongs to (if any) */
+  entityId?: string;
+}
+
+/** Entity collections of MapConfig that are validated */
+type EntityCollection = 'placedItems' | 'placedNPCs' | 'placedSocials' | 'dialogZones';
+
+// ==================== Helpers ====================
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isHexColor(value: unknown): boolean {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Collects issues for a single config
+ */
+class IssueCollector {
+  readonly issues: MapConfigIssue[] = [];
+
+  add(path: string, message: string, severity: ErrorSeverity, entityId?: string): void {
+    this.issues.push({ path, message, severity, entityId });
+  }
+
+  /**
+   * Get elements of an entity collection
+   * A collection that isn't an array is skipped as a whole
+   */
+  checkCollection<T>(collection: T[] | undefined, path: EntityCollection): T[] {
+    if (collection === undefined) return [];
+    if (Array.isArray(collection)) return collection;
+    this.add(path, `${path} must be an array, its entities are skipped`, 'error');
+    return [];
+  }
+
+  /**
+   * Check that an element of an entity collection is an object
+   * Other checks of the element are skipped when it isn't
+   */
+  checkEntityObject(entity: unknown, path: string): boolean {
+    if (isObject(entity)) return true;
+    this.add(path, 'Entity must be an object', 'error');
+    return false;
+  }
+
+  /** Check entity id and position, shared by all placeable entities */
+  checkEntityBase(
+    entity: { id?: unknown; x?: unknown; y?: unknown },
+    path: string,
+    seenIds: Set<string>,
+    checkY: boolean = true
+  ): string | undefined {
+    const id = typeof entity.id === 'string' && entity.id !== '' ? entity.id : undefined;
+
+    if (!id) {
+      this.add(`${path}.id`, 'Missing id', 'error');
+    } else if (seenIds.has(id)) {
+      this.add(`${path}.id`, `Duplicate id '${id}'`, 'error', id);
+    } else {
+      seenIds.add(id);
+    }
+
+    if (!isFiniteNumber(entity.x)) {
+      this.add(`${path}.x`, 'x must be a number', 'error', id);
+    }
+    if (checkY && !isFiniteNumber(entity.y)) {
+      this.add(`${path}.y`, 'y must be a number', 'error', id);
+    }
+
+    return id;
+  }
+
+  /** Check localized texts of a dialog zone or NPC */
+  checkTexts(texts: unknown, path: string, entityId?: string): void {
+    if (!Array.isArray(texts)) {
+      this.add(path, 'Texts must be an array', 'error', entityId);
+      return;
+    }
+
+    const languages = new Set<string>();
+    (texts as Partial<LocalizedText>[]).forEach((text, index) => {
+      const textPath = `${path}[${index}]`;
+      if (typeof text?.language !== 'string' || text.language === '') {
+        this.add(`${textPath}.language`, 'Missing language', 'warning', entityId);
+      } else if (languages.has(text.language)) {
+        this.add(`${textPath}.language`, `Duplicate language '${text.language}'`, 'warning', entityId);
+      } else {
+        languages.add(text.language);
+      }
+
+      if (typeof text?.content !== 'string') {
+        this.add(`${textPath}.content`, 'Content must be a string', 'warning', entityId);
+      } else if (text.content.length > MAX_DIALOG_CONTENT_LENGTH) {
+        this.add(`${textPath}.content`, `Content is longer than ${MAX_DIALOG_CONTENT_LENGTH} characters`, 'warning', entityId);
+      }
+    });
+  }
+
+  /** Check trigger of a dialog zone or NPC (unknown mode behaves like on enter) */
+  checkTrigger(trigger: Partial<DialogTrigger>, path: string, entityId?: string): void {
+    if (!DIALOG_TRIGGER_MODES.some(option => option.mode === trigger?.mode)) {
+      this.add(`${path}.mode`, `Unknown trigger mode '${trigger?.mode}'`, 'warning', entityId);
+    }
+    if (trigger?.cooldownSeconds !== undefined && (!isFiniteNumber(trigger.cooldownSeconds) || trigger.cooldownSeconds < 0)) {
+      this.add(`${path}.cooldownSeconds`, 'Cooldown must be a non-negative number', 'warning', entityId);
+    }
+  }
+
+  /** Check states and transitions of an NPC (unknown states behave like idle, unknown conditions are never met) */
+  checkBehavior(behavior: Partial<NPCBehavior>, path: string, entityId?: string): void {
+    if (!isObject(behavior)) {
+      this.add(path, 'Behavior must be an object', 'error', entityId);
+      return;
+    }
+
+    const isState = (state: unknown) => NPC_STATE_TYPES.some(option => option.type === state);
+    const checkPositive = (value: unknown, valuePath: string, allowZero = false) => {
+      if (value !== undefined && (!isFiniteNumber(value) || value < 0 || (!allowZero && value === 0))) {
+        this.add(valuePath, `Must be a ${allowZero ? 'non-negative' : 'positive'} number`, 'warning', entityId);
+      }
+    };
+
+    if (behavior.initialState !== undefined && !isState(behavior.initialState)) {
+      this.add(`${path}.initialState`, `Unknown state '${behavior.initialState}'`, 'warning', entityId);
+    }
+
+    if (behavior.transitions !== undefined) {
+      if (!Array.isArray(behavior.transitions)) {
+        this.add(`${path}.transitions`, 'Transitions must be an array', 'error', entityId);
+      } else {
+        behavior.transitions.forEach((transition, index) => {
+          const transitionPath = `${path}.transitions[${index}]`;
+          if (transition?.from !== undefined && !isState(transition.from)) {
+            this.add(`${transitionPath}.from`, `Unknown state '${transition.from}'`, 'warning', entityId);
+          }
+          if (!isState(transition?.to)) {
+            this.add(`${transitionPath}.to`, `Unknown state '${transition?.to}'`, 'warning', entityId);
+          }
+          if (!NPC_CONDITION_TYPES.some(option => option.condition === transition?.condition)) {
+            this.add(`${transitionPath}.condition`, `Unknown condition '${transition?.condition}', transition is never taken`, 'warning', entityId);
+          }
+          checkPositive(transition?.radius, `${transitionPath}.radius`);
+        });
+      }
+    }
+
+    if (behavior.patrol !== undefined) {
+      this.checkPatrol(behavior.patrol, `${path}.patrol`, entityId);
+    }
+    if (behavior.wander !== undefined && !isObject(behavior.wander)) {
+      this.add(`${path}.wander`, 'Wander must be an object', 'error', entityId);
+    } else if (behavior.wander !== undefined) {
+      checkPositive(behavior.wander.rangeX, `${path}.wander.rangeX`, true);
+      checkPositive(behavior.wander.rangeY, `${path}.wander.rangeY`, true);
+      checkPositive(behavior.wander.speed, `${path}.wander.speed`);
+      checkPositive(behavior.wander.waitSeconds, `${path}.wander.waitSeconds`, true);
+    }
+    if (behavior.follow !== undefined && !isObject(behavior.follow)) {
+      this.add(`${path}.follow`, 'Follow must be an object', 'error', entityId);
+    } else if (behavior.follow !== undefined) {
+      checkPositive(behavior.follow.distance, `${path}.follow.distance`, true);
+      checkPositive(behavior.follow.speed, `${path}.follow.speed`);
+    }
+  }
+
+  /** Check patrol path of an NPC (broken waypoints can't be walked, unknown mode behaves like back and forth) */
+  checkPatrol(patrol: Partial<NPCPatrol>, path: string, entityId?: string): void {
+    if (!Array.isArray(patrol?.waypoints)) {
+      this.add(`${path}.waypoints`, 'Waypoints must be an array', 'error', entityId);
+      return;
+    }
+
+    patrol.waypoints.forEach((waypoint, index) => {
+      const waypointPath = `${path}.waypoints[${index}]`;
+      if (!isFiniteNumber(waypoint?.offsetX) || !isFiniteNumber(waypoint?.offsetY)) {
+        this.add(waypointPath, 'Waypoint offsets must be numbers', 'error', entityId);
+      }
+      if (waypoint?.waitSeconds !== undefined && (!isFiniteNumber(waypoint.waitSeconds) || waypoint.waitSeconds < 0)) {
+        this.add(`${waypointPath}.waitSeconds`, 'Wait must be a non-negative number', 'warning', entityId);
+      }
+    });
+
+    if (patrol.speed !== undefined && (!isFiniteNumber(patrol.speed) || patrol.speed <= 0)) {
+      this.add(`${path}.speed`, 'Speed must be a positive number', 'warning', entityId);
+    }
+    if (patrol.waitSeconds !== undefined && (!isFiniteNumber(patrol.waitSeconds) || patrol.waitSeconds < 0)) {
+      this.add(`${path}.waitSeconds`, 'Wait must be a non-negative number', 'warning', entityId);
+    }
+    if (patrol.mode !== undefined && !NPC_PATROL_MODES.some(option => option.mode === patrol.mode)) {
+      this.add(`${path}.mode`, `Unknown patrol mode '${patrol.mode}'`, 'warning', entityId);
+    }
+  }
+
+  /** Check nodes and links of an NPC conversation (broken links end the conversation) */
+  checkDialogTree(tree: Partial<DialogTree>, path: string, entityId?: string): void {
+    if (!Array.isArray(tree?.nodes)) {
+      this.add(`${path}.nodes`, 'Nodes must be an array', 'warning', entityId);
+      return;
+    }
+
+    const nodeIds = new Set(tree.nodes.map(node => node?.id));
+    const checkLink = (target: unknown, linkPath: string) => {
+      if (target !== null && !nodeIds.has(target as string)) {
+        this.add(linkPath, `Unknown node '${target}', conversation ends there`, 'warning', entityId);
+      }
+    };
+
+    if (!nodeIds.has(tree.startNodeId as string)) {
+      this.add(`${path}.startNodeId`, `Unknown start node '${tree.startNodeId}'`, 'warning', entityId);
+    }
+    if (nodeIds.size !== tree.nodes.length) {
+      this.add(`${path}.nodes`, 'Duplicate node ids', 'warning', entityId);
+    }
+
+    tree.nodes.forEach((node, nodeIndex) => {
+      const nodePath = `${path}.nodes[${nodeIndex}]`;
+      if (!isObject(node)) {
+        this.add(nodePath, 'Node must be an object', 'error', entityId);
+        return;
+      }
+      this.checkTexts(node.texts, `${nodePath}.texts`, entityId);
+      checkLink(node.nextNodeId, `${nodePath}.nextNodeId`);
+      if (!Array.isArray(node.choices)) {
+        // Repaired by removeInvalidEntities
+        this.add(`${nodePath}.choices`, 'Choices must be an array, node has no choices', 'warning', entityId);
+        return;
+      }
+      node.choices.forEach((choice, choiceIndex) => {
+        const choicePath = `${nodePath}.choices[${choiceIndex}]`;
+        if (!isObject(choice)) {
+          this.add(choicePath, 'Choice must be an object', 'error', entityId);
+          return;
+        }
+        this.checkTexts(choice.texts, `${choicePath}.texts`, entityId);
+        checkLink(choice.nextNodeId, `${choicePath}.nextNodeId`);
+      });
+    });
+  }
+}
+
+// ==================== Validation ====================
+
+/**
+ * Validate map configuration
+ * @returns List of all found issues (empty if config is valid)
+ */
+export function validateMapConfig(config: MapConfig): MapConfigIssue[] {
+  const collector = new IssueCollector();
+  const seenIds = new Set<string>();
+
+  // World
+  if (!isFiniteNumber(config.worldWidth) || config.worldWidth <= 0) {
+    collector.add('worldWidth', 'worldWidth must be a positive number', 'fatal');
+  }
+  if (!isFiniteNumber(config.worldHeight) || config.worldHeight <= 0) {
+    collector.add('worldHeight', 'worldHeight must be a positive number', 'fatal');
+  }
+  if (!isFiniteNumber(config.playerStartX) || config.playerStartX < 0 || config.playerStartX > config.worldWidth) {
+    collector.add('playerStartX', 'Player start is outside the world', 'warning');
+  }
+  if (!isFiniteNumber(config.playerStartY) || config.playerStartY < 0 || config.playerStartY > config.worldHeight) {
+    collector.add('playerStartY', 'Player start is outside the world', 'warning');
+  }
+
+  // Background
+  const background = config.background;
+  const backgroundConfig = background && getBackgroundConfig(background.folder);
+  if (!backgroundConfig) {
+    collector.add('background.folder', `Unknown background '${background?.folder}', default is used`, 'warning');
+  } else {
+    const { scrollFactors, groundHeight } = background;
+    if (scrollFactors !== undefined && (
+      !Array.isArray(scrollFactors) ||
+      scrollFactors.length !== backgroundConfig.scrollFactors.length ||
+      !scrollFactors.every(isFiniteNumber)
+    )) {
+      collector.add(
+        'background.scrollFactors',
+        `Scroll factors must be ${backgroundConfig.scrollFactors.length} numbers, background defaults are used`,
+        'warning'
+      );
+    }
+    if (groundHeight !== undefined && (!isFiniteNumber(groundHeight) || groundHeight < 0 || groundHeight >= config.worldHeight)) {
+      collector.add('background.groundHeight', 'Ground height must be between 0 and world height', 'warning');
+    }
+  }
+  if (config.gameFrameColor !== undefined && !isHexColor(config.gameFrameColor)) {
+    collector.add('gameFrameColor', 'Frame color must be a hex color (#rrggbb)', 'warning');
+  }
+  if (config.dialogInteraction !== undefined && config.dialogInteraction !== 'auto' && config.dialogInteraction !== 'press') {
+    collector.add('dialogInteraction', `Unknown dialog interaction '${String(config.dialogInteraction)}'`, 'warning');
+  }
+  if (config.languages !== undefined) {
+    if (!Array.isArray(config.languages)) {
+      collector.add('languages', 'Languages must be an array', 'warning');
+    } else {
+      config.languages.forEach((code, index) => {
+        if (!isValidLanguageCode(code)) {
+          collector.add(`languages[${index}]`, `Invalid language code '${String(code)}'`, 'warning');
+        } else if (config.languages?.indexOf(code) !== index) {
+          collector.add(`languages[${index}]`, `Duplicate language '${code}'`, 'warning');
+        }
+      });
+    }
+  }
+
+  // Items
+  const itemGroups = getSceneItemGroups(background);
+  collector.checkCollection(config.placedItems, 'placedItems').forEach((item, index) => {
+    const path = `placedItems[${index}]`;
+    if (!collector.checkEntityObject(item, path)) return;
+    const id = collector.checkEntityBase(item, path, seenIds);
+    const itemDefinition = getItem(item.assetKey);
+
+    if (!itemDefinition) {
+      collector.add(`${path}.assetKey`, `Unknown item '${item.assetKey}'`, 'error', id);
+    } else {
+      if (!itemGroups.includes(itemDefinition.group)) {
+        collector.add(`${path}.assetKey`, `Item '${item.assetKey}' doesn't belong to the scene background`, 'warning', id);
+      }
+      if (item.physicsEnabled && !itemSupportsPhysics(item.assetKey)) {
+        collector.add(`${path}.physicsEnabled`, `Item '${item.assetKey}' does not support physics`, 'warning', id);
+      }
+    }
+    if (item.collectible && item.physicsEnabled) {
+      collector.add(`${path}.collectible`, 'Collectible item ignores physics (player picks it up instead)', 'warning', id);
+    }
+    if (item.scale !== undefined && (!isFiniteNumber(item.scale) || item.scale <= 0)) {
+      collector.add(`${path}.scale`, 'Scale must be a positive number', 'warning', id);
+    }
+  });
+
+  // NPCs
+  collector.checkCollection(config.placedNPCs, 'placedNPCs').forEach((npc, index) => {
+    const path = `placedNPCs[${index}]`;
+    if (!collector.checkEntityObject(npc, path)) return;
+    const id = collector.checkEntityBase(npc, path, seenIds);
+
+    if (!getNPCDefinition(npc.npcId)) {
+      collector.add(`${path}.npcId`, `Unknown NPC '${npc.npcId}'`, 'error', id);
+    }
+    if (npc.scale !== undefined && (!isFiniteNumber(npc.scale) || npc.scale <= 0)) {
+      collector.add(`${path}.scale`, 'Scale must be a positive number', 'warning', id);
+    }
+    if (npc.triggerRadius !== undefined && (!isFiniteNumber(npc.triggerRadius) || npc.triggerRadius <= 0)) {
+      collector.add(`${path}.triggerRadius`, 'Trigger radius must be a positive number', 'warning', id);
+    }
+    if (npc.dialog !== undefined) {
+      collector.checkDialogTree(npc.dialog, `${path}.dialog`, id);
+    }
+    if (npc.trigger !== undefined) {
+      collector.checkTrigger(npc.trigger, `${path}.trigger`, id);
+    }
+    if (npc.behavior !== undefined) {
+      collector.checkBehavior(npc.behavior, `${path}.behavior`, id);
+    }
+  });
+
+  // Socials
+  collector.checkCollection(config.placedSocials, 'placedSocials').forEach((social, index) => {
+    const path = `placedSocials[${index}]`;
+    if (!collector.checkEntityObject(social, path)) return;
+    const id = collector.checkEntityBase(social, path, seenIds);
+
+    if (!getSocial(social.socialKey)) {
+      collector.add(`${path}.socialKey`, `Unknown social '${social.socialKey}'`, 'error', id);
+    }
+    if (social.url !== undefined && !isValidUrl(social.url)) {
+      collector.add(`${path}.url`, `Invalid URL '${social.url}'`, 'warning', id);
+    }
+  });
+
+  // Dialog zones
+  collector.checkCollection(config.dialogZones, 'dialogZones').forEach((zone, index) => {
+    const path = `dialogZones[${index}]`;
+    if (!collector.checkEntityObject(zone, path)) return;
+    const id = collector.checkEntityBase(zone, path, seenIds, false);
+
+    if (!isFiniteNumber(zone.width) || zone.width <= 0) {
+      collector.add(`${path}.width`, 'Width must be a positive number', 'error', id);
+    }
+    if (zone.y !== undefined && !isFiniteNumber(zone.y)) {
+      collector.add(`${path}.y`, 'Y must be a number', 'error', id);
+    }
+    if (zone.height !== undefined && (!isFiniteNumber(zone.height) || zone.height <= 0)) {
+      collector.add(`${path}.height`, 'Height must be a positive number', 'error', id);
+    }
+    if (zone.priority !== undefined && !isFiniteNumber(zone.priority)) {
+      collector.add(`${path}.priority`, 'Priority must be a number', 'warning', id);
+    }
+    if ((zone.y === undefined) !== (zone.height === undefined)) {
+      collector.add(path, 'Vertical bounds need both y and height, zone spans the whole height', 'warning', id);
+    }
+    collector.checkTexts(zone.texts, `${path}.texts`, id);
+    if (zone.trigger !== undefined) {
+      collector.checkTrigger(zone.trigger, `${path}.trigger`, id);
+    }
+  });
+
+  return collector.issues;
+}
+
+/**
+ * Give dialog nodes without a choices array no choices (runtime expects an array)
+ */
+function repairDialogChoices(npc: PlacedNPC): PlacedNPC {
+  if (!npc.dialog || !Array.isArray(npc.dialog.nodes) || npc.dialog.nodes.every(node => Array.isArray(node.choices))) {
+    return npc;
+  }
+  return {
+    ...npc,
+    dialog: {
+      ...npc.dialog,
+      nodes: npc.dialog.nodes.map(node => Array.isArray(node.choices) ? node : { ...node, choices: [] }),
+    },
+  };
+}
+
+/**
+ * Remove entities with error-level issues so the scene can still be created
+ * (repairable problems of kept entities are repaired)
+ */
+export function removeInvalidEntities(config: MapConfig, issues: MapConfigIssue[]): MapConfig {
+  const isInvalid = (collection: EntityCollection, index: number) =>
+    issues.some(issue =>
+      issue.severity === 'error' &&
+      (issue.path === `${collection}[${index}]` || issue.path.startsWith(`${collection}[${index}].`))
+    );
+  // Collections that aren't arrays are replaced with empty ones
+  const keepValid = <T>(collection: T[] | undefined, name: EntityCollection): T[] | undefined => {
+    if (collection === undefined) return undefined;
+    if (!Array.isArray(collection)) return [];
+    return collection.filter((_, index) => !isInvalid(name, index));
+  };
+
+  return {
+    ...config,
+    placedItems: keepValid(config.placedItems, 'placedItems'),
+    placedNPCs: keepValid(config.placedNPCs, 'placedNPCs')?.map(repairDialogChoices),
+    placedSocials: keepValid(config.placedSocials, 'placedSocials'),
+    dialogZones: keepValid(config.dialogZones, 'dialogZones'),
+  };
+}
+
+/**
+ * Validate config, report all issues and remove invalid entities
+ * Throws error with readable report if the config has fatal issues
+ */
+export function sanitizeMapConfig(config: MapConfig): MapConfig {
+  const issues = validateMapConfig(config);
+  if (issues.length === 0) return config;
+  
+  reportMapConfigIssues(issues);
+  
+  const fatalIssues = issues.filter(issue => issue.severity === 'fatal');
+  if (fatalIssues.length > 0) {
+    throw new Error(`Invalid map config:\n${formatMapConfigIssues(fatalIssues)}`);
+  }
+  
+  return removeInvalidEntities(config, issues);
+}
+
+// ==================== Reporting ====================
+
+/**
+ * Format issues as readable multi-line report
+ * e.g. "[error] placedItems[2].assetKey: Unknown item 'lamp'"
+ */
+export function formatMapConfigIssues(issues: MapConfigIssue[]): string {
+  return issues
+    .map(issue => `[${issue.severity}] ${issue.path}: ${issue.message}`)
+    .join('\n');
+}
+
+/**
+ * Report issues through the error handler
+ * Fatal issues are reported as invalid config, others per entity
+ */
+export function reportMapConfigIssues(issues: MapConfigIssue[]): void {
+  issues.forEach(issue => {
+    handleError(createError(
+      issue.severity === 'fatal' ? ERROR_CODES.MAP_CONFIG_INVALID : ERROR_CODES.MAP_CONFIG_ENTITY_INVALID,
+      `${issue.path}: ${issue.message}`,
+      issue.severity,
+      { path: issue.path, entityId: issue.entityId }
+    ));
+  });
+}
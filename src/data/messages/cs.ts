@@ -0,0 +1,279 @@
+import type { MessageValue } from './messageTypes';
+
+/**
+ * Czech UI messages
+ * Base catalog (DEFAULT_LANGUAGE), its keys are all message keys
+ */
+export const cs = {
+  // Game
+  'game.build': 'STAVĚT',
+  'game.buildTitle': 'Přepnout do editoru',
+  'game.language': 'Jazyk',
+  'game.controls': 'OVLÁDÁNÍ',
+  'game.touchControls': 'Klepni a drž\ntam, kam chceš\njít',
+  'game.or': 'nebo',
+  'game.loading': 'NAČÍTÁNÍ',
+  'game.promptTalk': 'Mluvit',
+  'game.promptRead': 'Číst',
+  'game.promptTap': 'KLEPNI',
+  'game.promptKey': 'E',
+  'game.promptGamepadKey': 'A',
+  'game.dialogNext': 'Další',
+  'game.dialogEnd': 'Konec',
+  'game.collectedTitle': 'Sebrané předměty: {count}/{total}',
+  'game.resetCollected': 'Vrátit sebrané předměty zpět',
+
+  // Character and background selection
+  'select.title': 'VYBER POSTAVU',
+  'select.custom': 'VLASTNÍ',
+  'select.edit': 'UPRAVIT',
+  'select.play': 'HRÁT',
+  'select.backgroundTitle': 'NEBO SI VYBER VLASTNÍ POZADÍ',
+  'select.characterBuilder': 'Tvorba postavy',
+  'select.saveAndPlay': 'ULOŽIT A HRÁT',
+  'select.male': 'Muž',
+  'select.female': 'Žena',
+
+  // Builder toolbar
+  'builder.save': 'ULOŽIT',
+  'builder.scenes': 'SCÉNY',
+  'builder.scenesTitle': 'Správa scén (vytvořit, přejmenovat, duplikovat, smazat, otevřít)',
+  'builder.style': 'STYL',
+  'builder.styleTitle': 'Pozadí scény, výška země, jazyky, dialogy a barva rámu',
+  'builder.translate': 'PŘEKLAD',
+  'builder.translateTitle': 'Úplnost překladů, export a import souborů XLIFF a PO',
+  'builder.undo': 'ZPĚT',
+  'builder.undoTitle': 'Zpět (Ctrl+Z)',
+  'builder.redo': 'ZNOVU',
+  'builder.redoTitle': 'Znovu (Ctrl+Shift+Z)',
+  'builder.export': 'EXPORT',
+  'builder.exportTitle': 'Stáhnout konfiguraci mapy jako JSON',
+  'builder.import': 'IMPORT',
+  'builder.importTitle': 'Načíst konfiguraci mapy ze souboru JSON',
+  'builder.snap': 'MŘÍŽKA',
+  'builder.free': 'VOLNĚ',
+  'builder.snapTitle': 'Přepnout přichytávání k mřížce',
+  'builder.items': 'PŘEDMĚTY',
+  'builder.itemsTitle': 'Upravit předměty',
+  'builder.socials': 'SÍTĚ',
+  'builder.socialsTitle': 'Upravit ikony sociálních sítí',
+  'builder.npcs': 'POSTAVY',
+  'builder.npcsTitle': 'Upravit postavy',
+  'builder.dialogs': 'DIALOGY',
+  'builder.dialogsTitle': 'Upravit dialogové zóny',
+  'builder.addZone': '+ ZÓNA',
+  'builder.addZoneTitle': 'Vytvořit novou dialogovou zónu uprostřed pohledu',
+
+  // Builder palettes
+  'palette.items': 'Předměty',
+  'palette.socials': 'Sociální sítě',
+  'palette.npcs': 'Postavy',
+  'palette.humans': 'Lidé',
+  'palette.fantasy': 'Fantasy',
+  'palette.dragHint': 'Přetáhni do scény',
+  'palette.placeTitle': '{name} (dvojklikem umístíš)',
+
+  // Builder panels
+  'panel.dialogZone': 'Dialogová zóna',
+  'panel.scenes': 'Scény',
+  'panel.sceneStyle': 'Styl scény',
+  'panel.editSocial': 'Upravit síť',
+  'panel.translations': 'Překlady',
+  'panel.reset': 'VÝCHOZÍ',
+  'panel.npc': 'Postava',
+  'panel.confirm': 'POTVRDIT',
+  'panel.delete': 'SMAZAT',
+  'panel.contentLabel': 'Obsah (max. {max} znaků)',
+  'panel.contentPlaceholder': 'Zadej text dialogu...',
+  'panel.preview': 'Náhled',
+  'panel.textPlaceholder': 'Zadej text...',
+  'panel.color': 'Barva',
+  'panel.changeColor': 'Změnit',
+  'panel.changeColorTitle': 'Změnit barvu',
+  'panel.close': 'Zavřít',
+  'panel.minimize': 'Sbalit',
+  'panel.expand': 'Rozbalit',
+
+  // Scene style panel
+  'sceneStyle.background': 'POZADÍ',
+  'sceneStyle.backgroundHint': 'Paleta předmětů nabízí předměty k pozadí',
+  'sceneStyle.groundHeight': 'VÝŠKA ZEMĚ',
+  'sceneStyle.parallax': 'PARALAXA',
+  'sceneStyle.layer': 'Vrstva {number}',
+  'sceneStyle.parallaxHint': '1 se hýbe s kamerou, nižší hodnoty jsou dál',
+  'sceneStyle.languages': 'JAZYKY',
+  'sceneStyle.languageCode': 'Kód, např. uk nebo pt-BR',
+  'sceneStyle.addLanguage': 'PŘIDAT',
+  'sceneStyle.languagesHint': 'Nabízené ve výběru jazyka a záložkách dialogů, chybějící texty se berou z příbuzných jazyků',
+  'sceneStyle.dialogs': 'DIALOGY',
+  'sceneStyle.dialogsAuto': 'AUTOMATICKY',
+  'sceneStyle.dialogsPress': 'NA STISK',
+  'sceneStyle.dialogsHint': 'Na stisk: dialog otevře klávesa E, klepnutí na výzvu nebo tlačítko A na gamepadu u nejbližší postavy či zóny. Platí pro zóny a postavy bez vlastního spouštění',
+  'sceneStyle.frameColor': 'BARVA RÁMU',
+  'sceneStyle.useBackgroundTitle': 'Použít {name} (úpravy níže se vrátí)',
+  'sceneStyle.groundHeightResetTitle': 'Použít výšku země pozadí',
+  'sceneStyle.parallaxResetTitle': 'Použít posun vrstev pozadí',
+  'sceneStyle.languagesResetTitle': 'Nabízet všechny známé jazyky',
+  'sceneStyle.frameColorResetTitle': 'Použít výchozí barvu rámu',
+
+  // Translation panel
+  'translations.source': 'ZDROJ',
+  'translations.sourceHint': 'Překládají se texty prvního jazyka scény',
+  'translations.completeness': 'ÚPLNOST',
+  'translations.showMissing': 'Zobrazit texty chybějící v jazyce {language}',
+  'translations.complete': 'Všechny texty jsou v jazyce {language}',
+  'translations.missing': 'chybí {count}',
+  'translations.stale': { one: '{count} zastaralý', few: '{count} zastaralé', other: '{count} zastaralých' },
+  'translations.showInScene': 'Zobrazit ve scéně',
+  'translations.zoneEntity': 'Dialogová zóna na x={x}',
+  'translations.npcEntity': 'Postava {npc} na x={x}',
+  'translations.completenessHint': 'Chybějící texty se ve hře berou z příbuzných jazyků. Zastaralé překlady vznikly z dříve změněného zdrojového textu',
+  'translations.noTargets': 'Přidej jazyky v panelu STYL, aby šla scéna přeložit',
+  'translations.export': 'EXPORT',
+  'translations.exportTitle': 'Stáhnout texty scény pro překladatele',
+  'translations.language': 'Jazyk',
+  'translations.format': 'Formát',
+  'translations.import': 'IMPORT',
+  'translations.importTitle': 'Načíst přeložený soubor XLIFF nebo PO',
+  'translations.applied': { one: '{count} překlad použit', few: '{count} překlady použity', other: '{count} překladů použito' },
+  'translations.untranslated': { one: '{count} nepřeložený v souboru', few: '{count} nepřeložené v souboru', other: '{count} nepřeložených v souboru' },
+  'translations.staleNotApplied': { one: '{count} zastaralý (zdroj se změnil, nepoužit)', few: '{count} zastaralé (zdroj se změnil, nepoužity)', other: '{count} zastaralých (zdroj se změnil, nepoužito)' },
+  'translations.unknown': { one: '{count} nenalezen ve scéně', few: '{count} nenalezeny ve scéně', other: '{count} nenalezeno ve scéně' },
+
+  // Builder object controls
+  'controls.edit': 'UPRAV',
+  'controls.delete': 'SMAŽ',
+  'controls.done': 'HOTOVO',
+  'controls.flip': 'Otoč',
+  'controls.collect': 'Sbírat',
+  'controls.ghost': 'Průchozí',
+  'controls.solid': 'Pevný',
+  'controls.selectedCount': { one: '{count} vybraný', few: '{count} vybrané', other: '{count} vybraných' },
+  'controls.editZoneTitle': 'Upravit obsah zóny (nebo dvojklik)',
+  'controls.deleteZoneTitle': 'Smazat vybranou zónu',
+  'controls.deselectZoneTitle': 'Zrušit výběr zóny',
+  'controls.flipGroupTitle': 'Zrcadlově otočit vybrané objekty',
+  'controls.shrinkGroupTitle': 'Zmenšit vybrané objekty',
+  'controls.growGroupTitle': 'Zvětšit vybrané objekty',
+  'controls.deleteGroupTitle': 'Smazat vybrané objekty',
+  'controls.flipItemTitle': 'Otočit předmět vodorovně',
+  'controls.collectibleTitle': 'Sbíratelný: hráč předmět ve hře sebere',
+  'controls.physicsTitle': 'Fyzika: předmět hráči zablokuje cestu',
+  'controls.deleteItemTitle': 'Smazat vybraný předmět',
+  'controls.flipNPCTitle': 'Otočit postavu vodorovně',
+  'controls.editNPCTitle': 'Upravit dialog postavy',
+  'controls.deleteNPCTitle': 'Smazat vybranou postavu',
+  'controls.editSocialTitle': 'Upravit nastavení sítě (nebo dvojklik)',
+  'controls.deleteSocialTitle': 'Smazat vybranou síť',
+
+  // Dialog trigger settings
+  'trigger.show': 'Zobrazit dialog',
+  'trigger.enter': 'Při vstupu',
+  'trigger.interact': 'Na stisk',
+  'trigger.once': 'Jednou za relaci',
+  'trigger.cooldown': 'Při vstupu s prodlevou',
+  'trigger.sceneDefault': '{label} (scéna)',
+  'trigger.cooldownSeconds': 'Prodleva (s)',
+  'trigger.interactHint': 'Hráč dialog otevře klávesou E, klepnutím na výzvu nebo tlačítkem A na gamepadu',
+  'trigger.onceHint': 'Znovu se zobrazí po obnovení stránky',
+
+  // Dialog text markup
+  'markup.pageBreak': 'Řádek jen s {pageBreak} začíná novou stránku',
+  'markup.syntax': '[b]tučně[/b] [i]kurzíva[/i] [color=#e67e22]barva[/color] [link=https://…]odkaz[/link] [icon=discord]',
+
+  // Builder draft
+  'draft.found': 'Nalezen neuložený koncept',
+  'draft.restore': 'OBNOVIT',
+  'draft.restoreTitle': 'Obnovit neuložený koncept',
+  'draft.discard': 'ZAHODIT',
+  'draft.discardTitle': 'Smazat neuložený koncept',
+
+  // NPC behavior settings
+  'behavior.startState': 'Počáteční stav',
+  'behavior.transitions': 'Přechody',
+  'behavior.fromState': 'Ze stavu',
+  'behavior.toState': 'Do stavu',
+  'behavior.anyState': 'Kdykoli',
+  'behavior.removeTransition': 'Odebrat přechod',
+  'behavior.when': 'když',
+  'behavior.radiusTitle': 'Poloměr (px), prázdný = poloměr spouštění',
+  'behavior.addTransition': '+ PŘECHOD',
+  'behavior.transitionsHint': 'Použije se první přechod, jehož podmínka platí, např. Kdykoli → Mluví když Dialog otevřen',
+  'behavior.rangeX': 'Rozsah X (px)',
+  'behavior.rangeY': 'Rozsah Y (px)',
+  'behavior.speed': 'Rychlost (px/s)',
+  'behavior.wait': 'Čekání (s)',
+  'behavior.distance': 'Vzdálenost (px)',
+  'behavior.patrol': 'Hlídka',
+  'behavior.path': 'Cesta',
+  'behavior.waypointWaitTitle': 'Čekání v tomto bodě (s), prázdné = čekání hlídky',
+  'behavior.removeWaypoint': 'Odebrat bod',
+  'behavior.addWaypoint': '+ BOD',
+  'behavior.waypointsHint': 'Body posuneš tažením očíslovaných úchytů ve scéně, postava začíná na svém místě',
+  'behavior.stateIdle': 'Stojí',
+  'behavior.statePatrol': 'Hlídkuje',
+  'behavior.stateWander': 'Bloumá',
+  'behavior.stateFacePlayer': 'Otočí se k hráči',
+  'behavior.stateTalk': 'Mluví',
+  'behavior.stateFollow': 'Následuje',
+  'behavior.conditionPlayerNear': 'Hráč blízko',
+  'behavior.conditionPlayerFar': 'Hráč daleko',
+  'behavior.conditionDialogOpen': 'Dialog otevřen',
+  'behavior.conditionDialogClosed': 'Dialog zavřen',
+  'behavior.patrolPingpong': 'Tam a zpět',
+  'behavior.patrolLoop': 'Dokola',
+
+  // NPC panel
+  'npcPanel.node': 'Uzel dialogu',
+  'npcPanel.addNode': 'Přidat uzel',
+  'npcPanel.setStart': 'Rozhovor začíná tímto uzlem',
+  'npcPanel.deleteNode': 'Smazat uzel (odkazy na něj ukončí rozhovor)',
+  'npcPanel.emptyNode': '(prázdný)',
+  'npcPanel.choices': 'Volby hráče',
+  'npcPanel.choicePlaceholder': 'Text volby...',
+  'npcPanel.deleteChoice': 'Smazat volbu',
+  'npcPanel.choiceTarget': 'Uzel zobrazený po této volbě',
+  'npcPanel.endConversation': 'Konec rozhovoru',
+  'npcPanel.addChoice': '+ VOLBA',
+  'npcPanel.nextPage': 'Další stránka',
+  'npcPanel.triggerRadius': 'Poloměr spouštění',
+
+  // Dialog zone panel
+  'zonePanel.color': 'Barva zóny',
+  'zonePanel.verticalArea': 'Svislá oblast',
+  'zonePanel.fullHeight': 'Celá výška',
+  'zonePanel.customArea': 'Vlastní oblast',
+  'zonePanel.groundOnly': 'Jen na zemi',
+  'zonePanel.customAreaHint': 'Oblast nastavíš tažením horního a dolního okraje',
+  'zonePanel.groundOnlyHint': 'Zobrazí se, jen když hráč stojí na zemi',
+  'zonePanel.priority': 'Priorita',
+  'zonePanel.priorityHint': 'Kde se zóny překrývají, zobrazí se vyšší priorita (při shodě menší zóna)',
+
+  // Scene manager panel
+  'scenes.namePlaceholder': 'Název nové scény...',
+  'scenes.create': '+ NOVÁ',
+  'scenes.createTitle': 'Vytvořit prázdnou scénu',
+  'scenes.openInBuilder': 'Otevřená v editoru',
+  'scenes.open': 'OTEVŘÍT',
+  'scenes.openTitle': 'Otevřít scénu v editoru (neuložené změny zůstanou v konceptu)',
+  'scenes.rename': 'PŘEJM',
+  'scenes.renameTitle': 'Přejmenovat scénu',
+  'scenes.duplicate': 'KOP',
+  'scenes.duplicateTitle': 'Duplikovat scénu (uloženou verzi)',
+  'scenes.delete': 'SMAŽ',
+  'scenes.confirmDelete': 'JISTĚ?',
+  'scenes.deleteTitle': 'Smazat scénu',
+  'scenes.deleteOpenTitle': 'Otevřenou scénu nelze smazat',
+
+  // Social panel
+  'socialPanel.size': 'Velikost',
+  'socialPanel.sizeS': 'Malá',
+  'socialPanel.sizeM': 'Střední',
+  'socialPanel.sizeL': 'Velká',
+  'socialPanel.url': 'Odkaz (otevře se po kliknutí)',
+  'socialPanel.testLink': 'Vyzkoušet odkaz ↗',
+  'socialPanel.icon': 'Ikona sítě',
+  'socialPanel.changeIcon': 'Změnit ikonu sítě',
+  'socialPanel.currentIcon': 'Aktuální síť',
+  'socialPanel.selectIcon': 'Vybrat',
+} satisfies Record<string, MessageValue>;
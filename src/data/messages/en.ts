@@ -0,0 +1,278 @@
+import type { MessageCatalog } from './index';
+
+/**
+ * English UI messages
+ */
+export const en: MessageCatalog = {
+  // Game
+  'game.build': 'BUILD',
+  'game.buildTitle': 'Toggle Builder Mode',
+  'game.language': 'Language',
+  'game.controls': 'CONTROLS',
+  'game.touchControls': 'Tap and hold\nwhere you want\nto move',
+  'game.or': 'or',
+  'game.loading': 'LOADING',
+  'game.promptTalk': 'Talk',
+  'game.promptRead': 'Read',
+  'game.promptTap': 'TAP',
+  'game.promptKey': 'E',
+  'game.promptGamepadKey': 'A',
+  'game.dialogNext': 'Next',
+  'game.dialogEnd': 'End',
+  'game.collectedTitle': 'Collected items: {count}/{total}',
+  'game.resetCollected': 'Put collected items back',
+
+  // Character and background selection
+  'select.title': 'SELECT CHARACTER',
+  'select.custom': 'CUSTOM',
+  'select.edit': 'EDIT',
+  'select.play': 'PLAY',
+  'select.backgroundTitle': 'OR PICK YOUR OWN BACKGROUND',
+  'select.characterBuilder': 'Character Builder',
+  'select.saveAndPlay': 'SAVE & PLAY',
+  'select.male': 'Male',
+  'select.female': 'Female',
+
+  // Builder toolbar
+  'builder.save': 'SAVE',
+  'builder.scenes': 'SCENES',
+  'builder.scenesTitle': 'Manage scenes (create, rename, duplicate, delete, open)',
+  'builder.style': 'STYLE',
+  'builder.styleTitle': 'Scene background, ground height, languages, dialogs and frame color',
+  'builder.translate': 'TRANSLATE',
+  'builder.translateTitle': 'Translation completeness, export and import of XLIFF or PO files',
+  'builder.undo': 'UNDO',
+  'builder.undoTitle': 'Undo (Ctrl+Z)',
+  'builder.redo': 'REDO',
+  'builder.redoTitle': 'Redo (Ctrl+Shift+Z)',
+  'builder.export': 'EXPORT',
+  'builder.exportTitle': 'Download map configuration as JSON',
+  'builder.import': 'IMPORT',
+  'builder.importTitle': 'Load map configuration from JSON file',
+  'builder.snap': 'SNAP',
+  'builder.free': 'FREE',
+  'builder.snapTitle': 'Toggle grid snapping',
+  'builder.items': 'ITEMS',
+  'builder.itemsTitle': 'Edit items',
+  'builder.socials': 'SOCIALS',
+  'builder.socialsTitle': 'Edit social icons',
+  'builder.npcs': 'NPCS',
+  'builder.npcsTitle': 'Edit NPCs',
+  'builder.dialogs': 'DIALOGS',
+  'builder.dialogsTitle': 'Edit dialog zones',
+  'builder.addZone': '+ ZONE',
+  'builder.addZoneTitle': 'Create new dialog zone at center of view',
+
+  // Builder palettes
+  'palette.items': 'Items',
+  'palette.socials': 'Socials',
+  'palette.npcs': 'NPCs',
+  'palette.humans': 'Humans',
+  'palette.fantasy': 'Fantasy',
+  'palette.dragHint': 'Drag to place',
+  'palette.placeTitle': '{name} (double-click to place)',
+
+  // Builder panels
+  'panel.dialogZone': 'Dialog Zone',
+  'panel.scenes': 'Scenes',
+  'panel.sceneStyle': 'Scene Style',
+  'panel.editSocial': 'Edit Social',
+  'panel.translations': 'Translations',
+  'panel.reset': 'RESET',
+  'panel.npc': 'NPC',
+  'panel.confirm': 'CONFIRM',
+  'panel.delete': 'DELETE',
+  'panel.contentLabel': 'Content (max {max} chars)',
+  'panel.contentPlaceholder': 'Enter dialog text...',
+  'panel.preview': 'Preview',
+  'panel.textPlaceholder': 'Enter text...',
+  'panel.color': 'Color',
+  'panel.changeColor': 'Change',
+  'panel.changeColorTitle': 'Change color',
+  'panel.close': 'Close',
+  'panel.minimize': 'Minimize',
+  'panel.expand': 'Expand',
+
+  // Scene style panel
+  'sceneStyle.background': 'BACKGROUND',
+  'sceneStyle.backgroundHint': 'Item palette offers items matching the background',
+  'sceneStyle.groundHeight': 'GROUND HEIGHT',
+  'sceneStyle.parallax': 'PARALLAX',
+  'sceneStyle.layer': 'Layer {number}',
+  'sceneStyle.parallaxHint': '1 moves with the camera, lower values are further away',
+  'sceneStyle.languages': 'LANGUAGES',
+  'sceneStyle.languageCode': 'Code, e.g. uk or pt-BR',
+  'sceneStyle.addLanguage': 'ADD',
+  'sceneStyle.languagesHint': 'Offered in the game language picker and dialog tabs, missing texts fall back to related languages',
+  'sceneStyle.dialogs': 'DIALOGS',
+  'sceneStyle.dialogsAuto': 'AUTOMATIC',
+  'sceneStyle.dialogsPress': 'PRESS TO TALK',
+  'sceneStyle.dialogsHint': 'Press to talk: E, a tap on the prompt or gamepad A opens the dialog of the nearest NPC or zone. Applies to zones and NPCs without own trigger',
+  'sceneStyle.frameColor': 'FRAME COLOR',
+  'sceneStyle.useBackgroundTitle': 'Use {name} (overrides below are reset)',
+  'sceneStyle.groundHeightResetTitle': 'Use ground height of the background',
+  'sceneStyle.parallaxResetTitle': 'Use scroll factors of the background',
+  'sceneStyle.languagesResetTitle': 'Offer all known languages',
+  'sceneStyle.frameColorResetTitle': 'Use default frame color',
+
+  // Translation panel
+  'translations.source': 'SOURCE',
+  'translations.sourceHint': 'Texts of the first scene language are translated',
+  'translations.completeness': 'COMPLETENESS',
+  'translations.showMissing': 'Show texts missing in {language}',
+  'translations.complete': 'All texts are in {language}',
+  'translations.missing': '{count} missing',
+  'translations.stale': '{count} stale',
+  'translations.showInScene': 'Show in scene',
+  'translations.zoneEntity': 'Dialog zone at x={x}',
+  'translations.npcEntity': 'NPC {npc} at x={x}',
+  'translations.completenessHint': 'Missing texts fall back to related languages in the game. Stale translations were made for a source text that changed since',
+  'translations.noTargets': 'Add languages in the STYLE panel to translate the scene',
+  'translations.export': 'EXPORT',
+  'translations.exportTitle': 'Download texts of the scene for translators',
+  'translations.language': 'Language',
+  'translations.format': 'Format',
+  'translations.import': 'IMPORT',
+  'translations.importTitle': 'Load translated XLIFF or PO file',
+  'translations.applied': { one: '{count} translation applied', other: '{count} translations applied' },
+  'translations.untranslated': '{count} untranslated in file',
+  'translations.staleNotApplied': '{count} stale (source changed, not applied)',
+  'translations.unknown': '{count} not found in scene',
+
+  // Builder object controls
+  'controls.edit': 'EDIT',
+  'controls.delete': 'DEL',
+  'controls.done': 'DONE',
+  'controls.flip': 'Flip',
+  'controls.collect': 'Collect',
+  'controls.ghost': 'Ghost',
+  'controls.solid': 'Solid',
+  'controls.selectedCount': '{count} selected',
+  'controls.editZoneTitle': 'Edit zone content (or double-click)',
+  'controls.deleteZoneTitle': 'Delete selected zone',
+  'controls.deselectZoneTitle': 'Deselect zone',
+  'controls.flipGroupTitle': 'Mirror selected objects horizontally',
+  'controls.shrinkGroupTitle': 'Make selected objects smaller',
+  'controls.growGroupTitle': 'Make selected objects bigger',
+  'controls.deleteGroupTitle': 'Delete selected objects',
+  'controls.flipItemTitle': 'Flip item horizontally',
+  'controls.collectibleTitle': 'Toggle collectible: player picks the item up in game',
+  'controls.physicsTitle': 'Toggle physics: item will block player movement',
+  'controls.deleteItemTitle': 'Delete selected item',
+  'controls.flipNPCTitle': 'Flip NPC horizontally',
+  'controls.editNPCTitle': 'Edit NPC dialog',
+  'controls.deleteNPCTitle': 'Delete selected NPC',
+  'controls.editSocialTitle': 'Edit social settings (or double-click)',
+  'controls.deleteSocialTitle': 'Delete selected social',
+
+  // Dialog trigger settings
+  'trigger.show': 'Show dialog',
+  'trigger.enter': 'On enter',
+  'trigger.interact': 'Press to interact',
+  'trigger.once': 'Once per session',
+  'trigger.cooldown': 'On enter with cooldown',
+  'trigger.sceneDefault': '{label} (scene)',
+  'trigger.cooldownSeconds': 'Cooldown (s)',
+  'trigger.interactHint': 'Player presses E, taps the prompt or presses gamepad A to open the dialog',
+  'trigger.onceHint': 'Shown again after the page is reloaded',
+
+  // Dialog text markup
+  'markup.pageBreak': 'Line with only {pageBreak} starts a new page',
+  'markup.syntax': '[b]bold[/b] [i]italic[/i] [color=#e67e22]color[/color] [link=https://…]link[/link] [icon=discord]',
+
+  // Builder draft
+  'draft.found': 'Unsaved draft found',
+  'draft.restore': 'RESTORE',
+  'draft.restoreTitle': 'Restore unsaved draft',
+  'draft.discard': 'DISCARD',
+  'draft.discardTitle': 'Delete unsaved draft',
+
+  // NPC behavior settings
+  'behavior.startState': 'Start state',
+  'behavior.transitions': 'Transitions',
+  'behavior.fromState': 'From state',
+  'behavior.toState': 'To state',
+  'behavior.anyState': 'Any',
+  'behavior.removeTransition': 'Remove transition',
+  'behavior.when': 'when',
+  'behavior.radiusTitle': 'Radius (px), empty = trigger radius',
+  'behavior.addTransition': '+ TRANSITION',
+  'behavior.transitionsHint': 'The first transition whose condition is met is taken, e.g. Any → Talk when Dialog open',
+  'behavior.rangeX': 'Range X (px)',
+  'behavior.rangeY': 'Range Y (px)',
+  'behavior.speed': 'Speed (px/s)',
+  'behavior.wait': 'Wait (s)',
+  'behavior.distance': 'Distance (px)',
+  'behavior.patrol': 'Patrol',
+  'behavior.path': 'Path',
+  'behavior.waypointWaitTitle': 'Wait at this point (s), empty = wait of the patrol',
+  'behavior.removeWaypoint': 'Remove waypoint',
+  'behavior.addWaypoint': '+ WAYPOINT',
+  'behavior.waypointsHint': 'Drag numbered handles in the scene to move waypoints, the NPC starts at its placed position',
+  'behavior.stateIdle': 'Idle',
+  'behavior.statePatrol': 'Patrol',
+  'behavior.stateWander': 'Wander',
+  'behavior.stateFacePlayer': 'Face player',
+  'behavior.stateTalk': 'Talk',
+  'behavior.stateFollow': 'Follow',
+  'behavior.conditionPlayerNear': 'Player near',
+  'behavior.conditionPlayerFar': 'Player far',
+  'behavior.conditionDialogOpen': 'Dialog open',
+  'behavior.conditionDialogClosed': 'Dialog closed',
+  'behavior.patrolPingpong': 'Back and forth',
+  'behavior.patrolLoop': 'Loop',
+
+  // NPC panel
+  'npcPanel.node': 'Dialog node',
+  'npcPanel.addNode': 'Add node',
+  'npcPanel.setStart': 'Conversation starts with this node',
+  'npcPanel.deleteNode': 'Delete node (links to it end the conversation)',
+  'npcPanel.emptyNode': '(empty)',
+  'npcPanel.choices': 'Player choices',
+  'npcPanel.choicePlaceholder': 'Choice text...',
+  'npcPanel.deleteChoice': 'Delete choice',
+  'npcPanel.choiceTarget': 'Node shown after this choice',
+  'npcPanel.endConversation': 'End conversation',
+  'npcPanel.addChoice': '+ CHOICE',
+  'npcPanel.nextPage': 'Next page',
+  'npcPanel.triggerRadius': 'Trigger Radius',
+
+  // Dialog zone panel
+  'zonePanel.color': 'Zone Color',
+  'zonePanel.verticalArea': 'Vertical area',
+  'zonePanel.fullHeight': 'Full height',
+  'zonePanel.customArea': 'Custom area',
+  'zonePanel.groundOnly': 'Only on ground',
+  'zonePanel.customAreaHint': 'Drag top and bottom edges to set the area',
+  'zonePanel.groundOnlyHint': 'Shown only while the player stands on the ground',
+  'zonePanel.priority': 'Priority',
+  'zonePanel.priorityHint': 'Where zones overlap, the higher priority is shown (smaller zone on a tie)',
+
+  // Scene manager panel
+  'scenes.namePlaceholder': 'New scene name...',
+  'scenes.create': '+ NEW',
+  'scenes.createTitle': 'Create empty scene',
+  'scenes.openInBuilder': 'Open in builder',
+  'scenes.open': 'OPEN',
+  'scenes.openTitle': 'Open scene in builder (unsaved changes stay in draft)',
+  'scenes.rename': 'REN',
+  'scenes.renameTitle': 'Rename scene',
+  'scenes.duplicate': 'DUP',
+  'scenes.duplicateTitle': 'Duplicate scene (saved version)',
+  'scenes.delete': 'DEL',
+  'scenes.confirmDelete': 'SURE?',
+  'scenes.deleteTitle': 'Delete scene',
+  'scenes.deleteOpenTitle': 'Open scene cannot be deleted',
+
+  // Social panel
+  'socialPanel.size': 'Size',
+  'socialPanel.sizeS': 'Small',
+  'socialPanel.sizeM': 'Medium',
+  'socialPanel.sizeL': 'Large',
+  'socialPanel.url': 'Link URL (opens on click)',
+  'socialPanel.testLink': 'Test link ↗',
+  'socialPanel.icon': 'Social Icon',
+  'socialPanel.changeIcon': 'Change social icon',
+  'socialPanel.currentIcon': 'Current social',
+  'socialPanel.selectIcon': 'Select',
+};
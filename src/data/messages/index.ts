@@ -0,0 +1,93 @@
+import { DEFAULT_LANGUAGE, getLanguageFallbackChain, type Language } from '../../types/Language';
+import type { MessageParams, MessageValue } from './messageTypes';
+import { cs } from './cs';
+import { en } from './en';
+
+export * from './messageTypes';
+
+/** Key of a UI message (keys of the base catalog) */
+export type MessageKey = keyof typeof cs;
+
+/** Messages of one language, missing messages fall back to related languages */
+export type MessageCatalog = Partial<Record<MessageKey, MessageValue>>;
+
+/**
+ * UI message catalogs by language
+ * Czech is the base catalog with all keys, languages without a catalog use
+ * their fallback languages (see getLanguageFallbackChain)
+ */
+export const MESSAGE_CATALOGS: Record<Language, MessageCatalog> = { cs, en };
+
+const pluralRules = new Map<Language, Intl.PluralRules>();
+
+function getPluralRules(language: Language): Intl.PluralRules {
+  let rules = pluralRules.get(language);
+  if (!rules) {
+    try {
+      rules = new Intl.PluralRules(language);
+    } catch {
+      // Code the browser doesn't know
+      rules = new Intl.PluralRules(DEFAULT_LANGUAGE);
+    }
+    pluralRules.set(language, rules);
+  }
+  return rules;
+}
+
+/**
+ * Replace '{name}' placeholders (unknown placeholders are kept)
+ */
+function interpolate(text: string, params?: MessageParams): string {
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+/**
+ * Get UI message in a language
+ * Languages of the fallback chain are tried in order, plural form is chosen
+ * by rules of the language the message was found in ('{count}' parameter)
+ */
+export function translate(language: Language, key: MessageKey, params?: MessageParams): string {
+  for (const code of getLanguageFallbackChain(language)) {
+    const message = MESSAGE_CATALOGS[code]?.[key];
+    if (message === undefined) continue;
+
+    if (typeof message === 'string') return interpolate(message, params);
+    const category = getPluralRules(code).select(Number(params?.count ?? 0));
+    return interpolate(message[category] ?? message.other, params);
+  }
+  return key;
+}
+
+/**
+ * Find keys of the base catalog missing in other catalogs
+ * Only languages with missing keys are listed
+ */
+export function findMissingMessageKeys(): Partial<Record<Language, MessageKey[]>> {
+  const keys = Object.keys(cs) as MessageKey[];
+  const missing: Partial<Record<Language, MessageKey[]>> = {};
+
+  for (const [language, catalog] of Object.entries(MESSAGE_CATALOGS)) {
+    const languageMissing = keys.filter(key => catalog[key] === undefined);
+    if (languageMissing.length > 0) missing[language] = languageMissing;
+  }
+  return missing;
+}
+
+// Development check - report untranslated UI messages on startup
+// Uses try-catch to handle cases where import.meta.env is not available
+const isDevelopment = (): boolean => {
+  try {
+    return (import.meta as { env?: { DEV?: boolean } }).env?.DEV ?? false;
+  } catch {
+    return false;
+  }
+};
+
+if (isDevelopment()) {
+  for (const [language, keys] of Object.entries(findMissingMessageKeys())) {
+    console.warn(`[messages] ${keys?.length} UI messages missing in '${language}' (fallback language is shown):`, keys);
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * UI message catalog interfaces
+ */
+
+/**
+ * Message with forms for plural categories of the language
+ * ('one', 'few', 'many', 'other', ..., see Intl.PluralRules), 'other' is
+ * used for categories without a form
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/**
+ * Message text, '{name}' placeholders are replaced by parameters
+ * ('{count}' by the count of a plural message)
+ */
+export type MessageValue = string | PluralMessage;
+
+/** Parameters of a message */
+export type MessageParams = Record<string, string | number>;
@@ -30,17 +30,32 @@ export interface NPCDefinition {
       endFrame: number;
       frameRate: number;
     };
+    /**
+     * Played while a dialog with the NPC is open (default: idle)
+     * No NPC has it yet, current spritesheets are a single idle row
+     */
     interact?: {
       startFrame: number;
       endFrame: number;
       frameRate: number;
     };
+    /**
+     * Played while patrolling (default: idle)
+     * No NPC has it yet, current spritesheets are a single idle row
+     */
+    walk?: {
+      startFrame: number;
+      endFrame: number;
+      frameRate: number;
+    };
   };
 }
 
 /**
  * Registry of all available NPC types in the game.
  * Used for asset loading and entity creation.
+ * Spritesheets are a single row of idle frames, add walk and interact
+ * ranges here when a sheet gets more rows.
  */
 export const NPC_REGISTRY: NPCDefinition[] = [
   // HUMANS
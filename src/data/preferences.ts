@@ -0,0 +1,58 @@
+/**
+ * User Preferences - In-memory copy of preferences from the repository
+ *
+ * Loaded once on startup (before UI is mounted), so managers can read
+ * preferences synchronously. Changes are applied immediately and saved
+ * in the background.
+ */
+
+import { getPreferencesRepository, type UserPreferences } from './repositories';
+import { handleError, createError, ERROR_CODES } from '../utils/errorHandler';
+
+let preferences: UserPreferences = {};
+
+/**
+ * Load preferences from the repository
+ * App starts with defaults if loading fails
+ */
+export async function loadPreferences(): Promise<UserPreferences> {
+  try {
+    preferences = await getPreferencesRepository().get();
+  } catch (error) {
+    handleError(createError(
+      ERROR_CODES.PREFERENCES_STORAGE_FAILED,
+      'Failed to load preferences, using defaults',
+      'warning',
+      undefined,
+      error instanceof Error ? error : new Error(String(error))
+    ));
+  }
+  return preferences;
+}
+
+/**
+ * Get loaded preferences
+ */
+export function getPreferences(): Readonly<UserPreferences> {
+  return preferences;
+}
+
+/**
+ * Change preferences
+ * New values are used right away, failed save keeps them for this session
+ */
+export async function updatePreferences(changes: UserPreferences): Promise<void> {
+  preferences = { ...preferences, ...changes };
+
+  try {
+    await getPreferencesRepository().update(changes);
+  } catch (error) {
+    handleError(createError(
+      ERROR_CODES.PREFERENCES_STORAGE_FAILED,
+      'Failed to save preferences',
+      'warning',
+      { changes: Object.keys(changes) },
+      error instanceof Error ? error : new Error(String(error))
+    ));
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Repository Errors
+ * Thrown by repositories, so callers can react to specific failures
+ */
+
+import type { SceneSummary } from './types';
+
+/**
+ * Request to the backend API failed
+ */
+export class ApiError extends Error {
+  /** HTTP status (0 if the server couldn't be reached) */
+  readonly status: number;
+  /** Parsed JSON body of the error response */
+  readonly body: unknown;
+
+  constructor(message: string, status: number, body: unknown = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * Scene was changed elsewhere (another tab or device) since it was loaded
+ */
+export class SceneConflictError extends Error {
+  readonly sceneId: string;
+  /** Version of the scene currently stored (null if the server didn't send it) */
+  readonly current: SceneSummary | null;
+
+  constructor(sceneId: string, current: SceneSummary | null) {
+    super(`Scene ${sceneId} was changed${current ? ` at ${current.updatedAt}` : ''}`);
+    this.name = 'SceneConflictError';
+    this.sceneId = sceneId;
+    this.current = current;
+  }
+}
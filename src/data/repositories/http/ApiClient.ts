@@ -0,0 +1,172 @@
+import { ApiError } from '../errors';
+
+/** Refresh access token this long before it expires */
+const TOKEN_REFRESH_MARGIN_MS = 30 * 1000;
+
+/**
+ * Response of login and refresh endpoints
+ */
+interface AuthResponse {
+  accessToken: string;
+  expiresAt: string;  // ISO timestamp
+}
+
+/**
+ * Error body returned by the backend
+ */
+interface ErrorBody {
+  message?: string;
+}
+
+/**
+ * ApiClient - JSON requests to the backend API with JWT auth
+ *
+ * Access token is kept in memory only, refresh token is an httpOnly cookie
+ * (see "Autentizace" in docs/BACKEND_INTEGRATION.md). Token is refreshed
+ * shortly before it expires and once more when a request returns 401.
+ * Requests without a token are sent as they are (public endpoints don't
+ * need one), a refresh is tried only when they return 401.
+ */
+export class ApiClient {
+  private baseUrl: string;
+  private accessToken: string | null = null;
+  private expiresAt: number = 0;
+  /** Running refresh shared by parallel requests */
+  private refreshPromise: Promise<boolean> | null = null;
+
+  constructor(baseUrl: string) {
+    // Allow both "http://host" and "http://host/"
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Set tokens received from login (e.g. after OAuth callback)
+   */
+  setSession(auth: AuthResponse): void {
+    this.accessToken = auth.accessToken;
+    this.expiresAt = new Date(auth.expiresAt).getTime();
+  }
+
+  /** Forget access token (refresh cookie is removed by logout endpoint) */
+  clearSession(): void {
+    this.accessToken = null;
+    this.expiresAt = 0;
+  }
+
+  /**
+   * Send request and parse JSON response
+   * @throws ApiError on network failure or non-2xx response
+   */
+  async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    if (this.accessToken !== null && !this.isTokenValid()) {
+      await this.refreshToken();
+    }
+
+    let response = await this.send(method, path, body);
+
+    // Token may have been revoked or expired meanwhile - refresh and retry once
+    if (response.status === 401 && await this.refreshToken()) {
+      response = await this.send(method, path, body);
+    }
+
+    if (!response.ok) {
+      const errorBody = await this.readJson<ErrorBody>(response);
+      throw new ApiError(
+        errorBody?.message ?? `${method} ${path} failed with status ${response.status}`,
+        response.status,
+        errorBody
+      );
+    }
+
+    // 204 No Content
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return await this.readJson<T>(response) as T;
+  }
+
+  get<T>(path: string): Promise<T> {
+    return this.request<T>('GET', path);
+  }
+
+  post<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>('POST', path, body);
+  }
+
+  put<T>(path: string, body: unknown): Promise<T> {
+    return this.request<T>('PUT', path, body);
+  }
+
+  patch<T>(path: string, body: unknown): Promise<T> {
+    return this.request<T>('PATCH', path, body);
+  }
+
+  delete<T>(path: string): Promise<T> {
+    return this.request<T>('DELETE', path);
+  }
+
+  private isTokenValid(): boolean {
+    return Date.now() < this.expiresAt - TOKEN_REFRESH_MARGIN_MS;
+  }
+
+  /**
+   * Get a new access token using the refresh cookie
+   * @returns Whether a new token was received
+   */
+  private refreshToken(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestNewToken().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async requestNewToken(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/auth/refresh`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        this.clearSession();
+        return false;
+      }
+      this.setSession(await response.json() as AuthResponse);
+      return true;
+    } catch (e) {
+      console.warn('Failed to refresh access token:', e);
+      this.clearSession();
+      return false;
+    }
+  }
+
+  private async send(method: string, path: string, body?: unknown): Promise<Response> {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (this.accessToken) {
+      headers['Authorization'] = `Bearer ${this.accessToken}`;
+    }
+
+    try {
+      return await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers,
+        credentials: 'include',
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (e) {
+      throw new ApiError(`${method} ${path} failed: ${e instanceof Error ? e.message : String(e)}`, 0);
+    }
+  }
+
+  private async readJson<T>(response: Response): Promise<T | null> {
+    try {
+      return await response.json() as T;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import type { PreferencesRepository, UserPreferences } from '../types';
+import type { ApiClient } from './ApiClient';
+
+/** Endpoint of preferences of the signed in user */
+const PREFERENCES_PATH = '/api/users/me/preferences';
+
+/**
+ * Preferences repository backed by the REST API
+ */
+export class HttpPreferencesRepository implements PreferencesRepository {
+  private client: ApiClient;
+
+  constructor(client: ApiClient) {
+    this.client = client;
+  }
+
+  get(): Promise<UserPreferences> {
+    return this.client.get<UserPreferences>(PREFERENCES_PATH);
+  }
+
+  update(changes: UserPreferences): Promise<UserPreferences> {
+    return this.client.patch<UserPreferences>(PREFERENCES_PATH, changes);
+  }
+}
@@ -0,0 +1,111 @@
+import { parseMapConfig, type MapConfig } from '../../mapConfig';
+import { ApiError, SceneConflictError } from '../errors';
+import type { SceneRepository, SceneSaveOptions, SceneSummary, StoredScene } from '../types';
+import type { ApiClient } from './ApiClient';
+
+/** Page size for listing scenes */
+const LIST_PAGE_SIZE = 50;
+
+/**
+ * Scene as returned by the backend (config only in detail responses)
+ */
+interface ApiScene {
+  id: string;
+  name: string;
+  config?: unknown;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ApiSceneList {
+  scenes: ApiScene[];
+  total: number;
+}
+
+/** Body of 409 response to PUT /api/scenes/:id */
+interface ApiConflictBody {
+  scene?: ApiScene;
+}
+
+function toSummary(scene: ApiScene): SceneSummary {
+  return {
+    id: scene.id,
+    name: scene.name,
+    createdAt: scene.createdAt,
+    updatedAt: scene.updatedAt,
+  };
+}
+
+function toStoredScene(scene: ApiScene): StoredScene {
+  return { ...toSummary(scene), config: parseMapConfig(scene.config) };
+}
+
+/**
+ * Scene repository backed by the REST API (/api/scenes)
+ */
+export class HttpSceneRepository implements SceneRepository {
+  private client: ApiClient;
+
+  constructor(client: ApiClient) {
+    this.client = client;
+  }
+
+  async list(): Promise<SceneSummary[]> {
+    const scenes: SceneSummary[] = [];
+    let total = Infinity;
+
+    while (scenes.length < total) {
+      const page = await this.client.get<ApiSceneList>(`/api/scenes?limit=${LIST_PAGE_SIZE}&offset=${scenes.length}`);
+      scenes.push(...page.scenes.map(toSummary));
+      total = page.total;
+      if (page.scenes.length === 0) break;
+    }
+
+    return scenes.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(id: string): Promise<StoredScene | null> {
+    try {
+      return toStoredScene(await this.client.get<ApiScene>(`/api/scenes/${encodeURIComponent(id)}`));
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async create(name: string, config?: MapConfig): Promise<StoredScene> {
+    const created = toStoredScene(await this.client.post<ApiScene>('/api/scenes', { name }));
+    // Server creates an empty world, copied config is saved separately
+    return config ? this.save(created.id, config) : created;
+  }
+
+  async save(id: string, config: MapConfig, options: SceneSaveOptions = {}): Promise<StoredScene> {
+    try {
+      return toStoredScene(await this.client.put<ApiScene>(`/api/scenes/${encodeURIComponent(id)}`, {
+        config,
+        // Kept in sync for scene listings, the config is the source of truth
+        backgroundFolder: config.background.folder,
+        // Server rejects the save with 409 if the scene changed since this version
+        updatedAt: options.expectedUpdatedAt,
+      }));
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        const current = (error.body as ApiConflictBody | null)?.scene;
+        throw new SceneConflictError(id, current ? toSummary(current) : null);
+      }
+      throw error;
+    }
+  }
+
+  async rename(id: string, name: string): Promise<SceneSummary> {
+    return toSummary(await this.client.patch<ApiScene>(`/api/scenes/${encodeURIComponent(id)}`, { name }));
+  }
+
+  async duplicate(id: string, name: string): Promise<StoredScene> {
+    return toStoredScene(await this.client.post<ApiScene>(`/api/scenes/${encodeURIComponent(id)}/duplicate`, { name }));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.client.delete(`/api/scenes/${encodeURIComponent(id)}`);
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Repositories - Persistence of scenes and user preferences
+ *
+ * Uses the REST API when VITE_API_URL is set (see docs/BACKEND_INTEGRATION.md),
+ * localStorage otherwise. Both implement the same interfaces, so the rest
+ * of the app doesn't know where data is stored.
+ */
+
+import type { MapConfig } from '../mapConfig';
+import { sanitizeMapConfig } from '../mapConfigValidation';
+import type { PreferencesRepository, SceneRepository } from './types';
+import { LocalSceneRepository } from './local/LocalSceneRepository';
+import { LocalPreferencesRepository } from './local/LocalPreferencesRepository';
+import { ApiClient } from './http/ApiClient';
+import { HttpSceneRepository } from './http/HttpSceneRepository';
+import { HttpPreferencesRepository } from './http/HttpPreferencesRepository';
+
+export * from './types';
+export * from './errors';
+export { ApiClient, LocalSceneRepository, LocalPreferencesRepository, HttpSceneRepository, HttpPreferencesRepository };
+
+/**
+ * Backend URL from Vite env (empty when running without backend)
+ * Uses try-catch to handle cases where import.meta.env is not available
+ */
+const getApiUrl = (): string => {
+  try {
+    return (import.meta as { env?: { VITE_API_URL?: string } }).env?.VITE_API_URL ?? '';
+  } catch {
+    return '';
+  }
+};
+
+// ============================================
+// Active Repositories
+// ============================================
+
+const apiUrl = getApiUrl();
+
+/** Client of the backend API (null when running without backend) */
+export const apiClient: ApiClient | null = apiUrl ? new ApiClient(apiUrl) : null;
+
+let sceneRepository: SceneRepository = apiClient
+  ? new HttpSceneRepository(apiClient)
+  : new LocalSceneRepository();
+
+let preferencesRepository: PreferencesRepository = apiClient
+  ? new HttpPreferencesRepository(apiClient)
+  : new LocalPreferencesRepository();
+
+/** Get repository of the scene library */
+export function getSceneRepository(): SceneRepository {
+  return sceneRepository;
+}
+
+/** Replace repository of the scene library */
+export function setSceneRepository(repository: SceneRepository): void {
+  sceneRepository = repository;
+  loadedSceneVersions.clear();
+}
+
+/** Get repository of user preferences */
+export function getPreferencesRepository(): PreferencesRepository {
+  return preferencesRepository;
+}
+
+/** Replace repository of user preferences */
+export function setPreferencesRepository(repository: PreferencesRepository): void {
+  preferencesRepository = repository;
+}
+
+// ============================================
+// Scene Versions
+// ============================================
+
+/** updatedAt of the scene versions loaded in this session (base for conflict detection) */
+const loadedSceneVersions = new Map<string, string>();
+
+/** Get updatedAt of the loaded version of a scene */
+export function getLoadedSceneVersion(sceneId: string): string | undefined {
+  return loadedSceneVersions.get(sceneId);
+}
+
+/** Remember updatedAt of a loaded or saved scene version */
+export function setLoadedSceneVersion(sceneId: string, updatedAt: string): void {
+  loadedSceneVersions.set(sceneId, updatedAt);
+}
+
+/** Forget loaded version (next save of the scene is not checked for conflicts) */
+export function forgetLoadedSceneVersion(sceneId: string): void {
+  loadedSceneVersions.delete(sceneId);
+}
+
+/**
+ * Load config of a scene and remember its version
+ * Config is validated, entities with errors are skipped (and reported)
+ * Throws error if the scene doesn't exist or its config has fatal issues
+ */
+export async function loadSceneConfig(sceneId: string): Promise<MapConfig> {
+  const scene = await sceneRepository.get(sceneId);
+  if (!scene) {
+    throw new Error(`Scene ${sceneId} not found`);
+  }
+  setLoadedSceneVersion(sceneId, scene.updatedAt);
+  return sanitizeMapConfig(scene.config);
+}
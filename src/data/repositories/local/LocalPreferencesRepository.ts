@@ -0,0 +1,86 @@
+import { isValidLanguageCode } from '../../../types/Language';
+import type { CharacterSaveData } from '../../CharacterStorage';
+import type { PreferencesRepository, UserPreferences } from '../types';
+
+/**
+ * localStorage keys of single preferences
+ * Kept from the time each manager stored its own value, so saved settings survive
+ */
+const STORAGE_KEYS = {
+  language: 'language',
+  playerSkin: 'playerSkin',
+  // New key on purpose: old 'background' was a forced choice, not an opt-in override
+  backgroundOverride: 'backgroundOverride',
+  lastOpenedSceneId: 'lastOpenedSceneId',
+  character: 'characterSelection',
+  useModularPlayer: 'useModularPlayer',
+} as const;
+
+/**
+ * Parse stored character (older saves contain only the selection without version)
+ */
+function parseCharacter(saved: string): CharacterSaveData | null {
+  try {
+    const parsed = JSON.parse(saved) as Partial<CharacterSaveData>;
+    if (parsed.gender !== 'male' && parsed.gender !== 'female') return null;
+
+    return {
+      version: parsed.version ?? 1,
+      gender: parsed.gender,
+      skin: parsed.skin ?? null,
+      hair: parsed.hair ?? null,
+      clothing: Array.isArray(parsed.clothing) ? parsed.clothing : [],
+      createdAt: parsed.createdAt,
+      updatedAt: parsed.updatedAt,
+    };
+  } catch (e) {
+    console.warn('Failed to load saved character selection:', e);
+    return null;
+  }
+}
+
+/**
+ * Preferences repository in localStorage (one key per preference)
+ */
+export class LocalPreferencesRepository implements PreferencesRepository {
+  async get(): Promise<UserPreferences> {
+    const preferences: UserPreferences = {};
+
+    const language = localStorage.getItem(STORAGE_KEYS.language);
+    if (isValidLanguageCode(language)) {
+      preferences.language = language;
+    }
+
+    const playerSkin = localStorage.getItem(STORAGE_KEYS.playerSkin);
+    if (playerSkin) preferences.playerSkin = playerSkin;
+
+    const backgroundOverride = localStorage.getItem(STORAGE_KEYS.backgroundOverride);
+    if (backgroundOverride) preferences.backgroundOverride = backgroundOverride;
+
+    const lastOpenedSceneId = localStorage.getItem(STORAGE_KEYS.lastOpenedSceneId);
+    if (lastOpenedSceneId) preferences.lastOpenedSceneId = lastOpenedSceneId;
+
+    const character = localStorage.getItem(STORAGE_KEYS.character);
+    if (character) preferences.character = parseCharacter(character);
+
+    const useModularPlayer = localStorage.getItem(STORAGE_KEYS.useModularPlayer);
+    if (useModularPlayer !== null) preferences.useModularPlayer = useModularPlayer === 'true';
+
+    return preferences;
+  }
+
+  async update(changes: UserPreferences): Promise<UserPreferences> {
+    (Object.keys(changes) as Array<keyof UserPreferences>).forEach(key => {
+      const value = changes[key];
+      if (value === undefined) return;
+
+      if (value === null) {
+        localStorage.removeItem(STORAGE_KEYS[key]);
+      } else {
+        localStorage.setItem(STORAGE_KEYS[key], typeof value === 'string' ? value : JSON.stringify(value));
+      }
+    });
+
+    return this.get();
+  }
+}
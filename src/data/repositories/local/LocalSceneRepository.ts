@@ -0,0 +1,167 @@
+import {
+  loadMapConfig,
+  parseMapConfig,
+  DEFAULT_SCENE_ID,
+  MAP_CONFIG_VERSION,
+  type MapConfig,
+} from '../../mapConfig';
+import { DEFAULT_BACKGROUND_FOLDER, resolveSceneBackground } from '../../background';
+import { getPlayerGroundY } from '../../../constants/playerConstants';
+import { SceneConflictError } from '../errors';
+import type { SceneRepository, SceneSaveOptions, SceneSummary, StoredScene } from '../types';
+
+/** Name of the bundled scene in the library */
+const DEFAULT_SCENE_NAME = 'Default scene';
+
+/** Timestamp of the bundled scene until it's saved (stable, so it works as version) */
+const DEFAULT_SCENE_TIMESTAMP = new Date(0).toISOString();
+
+/** localStorage key for the list of scenes (without configs) */
+const LIBRARY_KEY = 'sceneLibrary';
+
+/** localStorage key prefix for scene configs (one entry per scene) */
+const SCENE_KEY_PREFIX = 'scene:';
+
+/**
+ * Generate unique scene ID
+ */
+function generateSceneId(): string {
+  return `scene_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Config of a new empty scene
+ */
+function createEmptyMapConfig(): MapConfig {
+  const worldHeight = 640;
+  const background = { folder: DEFAULT_BACKGROUND_FOLDER };
+  return {
+    version: MAP_CONFIG_VERSION,
+    worldWidth: 2500,
+    worldHeight,
+    playerStartX: 250,
+    playerStartY: getPlayerGroundY(worldHeight, resolveSceneBackground(background).groundHeight),
+    background,
+    placedItems: [],
+    dialogZones: [],
+    placedNPCs: [],
+    placedSocials: [],
+  };
+}
+
+function sortByName(scenes: SceneSummary[]): SceneSummary[] {
+  return [...scenes].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Scene repository in localStorage
+ * Library starts with the bundled scene, its config is read from
+ * public/config/map.json until the scene is saved for the first time
+ */
+export class LocalSceneRepository implements SceneRepository {
+  async list(): Promise<SceneSummary[]> {
+    return sortByName(this.readLibrary());
+  }
+
+  async get(id: string): Promise<StoredScene | null> {
+    const summary = this.findSummary(id);
+    if (!summary) return null;
+
+    const saved = localStorage.getItem(SCENE_KEY_PREFIX + id);
+    if (saved) {
+      return { ...summary, config: parseMapConfig(JSON.parse(saved)) };
+    }
+    if (id === DEFAULT_SCENE_ID) {
+      return { ...summary, config: await loadMapConfig() };
+    }
+    throw new Error(`Config of scene ${id} is missing`);
+  }
+
+  async create(name: string, config: MapConfig = createEmptyMapConfig()): Promise<StoredScene> {
+    const now = new Date().toISOString();
+    const scene: StoredScene = { id: generateSceneId(), name, createdAt: now, updatedAt: now, config };
+
+    this.writeConfig(scene.id, config);
+    this.writeLibrary([...this.readLibrary(), this.toSummary(scene)]);
+    return scene;
+  }
+
+  async save(id: string, config: MapConfig, options: SceneSaveOptions = {}): Promise<StoredScene> {
+    // Another tab may have saved the scene meanwhile
+    const current = this.findSummary(id);
+    if (current && options.expectedUpdatedAt && current.updatedAt !== options.expectedUpdatedAt) {
+      throw new SceneConflictError(id, current);
+    }
+
+    const summary = this.updateSummary(id, {});
+    this.writeConfig(id, config);
+    return { ...summary, config };
+  }
+
+  async rename(id: string, name: string): Promise<SceneSummary> {
+    return this.updateSummary(id, { name });
+  }
+
+  async duplicate(id: string, name: string): Promise<StoredScene> {
+    const source = await this.get(id);
+    if (!source) {
+      throw new Error(`Scene ${id} not found`);
+    }
+    return this.create(name, source.config);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.writeLibrary(this.readLibrary().filter(scene => scene.id !== id));
+    localStorage.removeItem(SCENE_KEY_PREFIX + id);
+  }
+
+  private readLibrary(): SceneSummary[] {
+    const saved = localStorage.getItem(LIBRARY_KEY);
+    if (saved) {
+      try {
+        const parsed = JSON.parse(saved);
+        if (Array.isArray(parsed)) return parsed as SceneSummary[];
+      } catch (e) {
+        console.warn('Failed to load scene library:', e);
+      }
+    }
+
+    // First run - library contains only the bundled scene
+    return [{
+      id: DEFAULT_SCENE_ID,
+      name: DEFAULT_SCENE_NAME,
+      createdAt: DEFAULT_SCENE_TIMESTAMP,
+      updatedAt: DEFAULT_SCENE_TIMESTAMP,
+    }];
+  }
+
+  private findSummary(id: string): SceneSummary | undefined {
+    return this.readLibrary().find(scene => scene.id === id);
+  }
+
+  private writeLibrary(scenes: SceneSummary[]): void {
+    localStorage.setItem(LIBRARY_KEY, JSON.stringify(scenes));
+  }
+
+  private writeConfig(id: string, config: MapConfig): void {
+    localStorage.setItem(SCENE_KEY_PREFIX + id, JSON.stringify(config));
+  }
+
+  /** Update scene in library (also bumps updatedAt) */
+  private updateSummary(id: string, changes: Partial<Pick<SceneSummary, 'name'>>): SceneSummary {
+    const library = this.readLibrary();
+    const index = library.findIndex(scene => scene.id === id);
+    if (index === -1) {
+      throw new Error(`Scene ${id} not found`);
+    }
+
+    const updated = { ...library[index], ...changes, updatedAt: new Date().toISOString() };
+    library[index] = updated;
+    this.writeLibrary(library);
+    return updated;
+  }
+
+  private toSummary({ id, name, createdAt, updatedAt }: SceneSummary): SceneSummary {
+    return { id, name, createdAt, updatedAt };
+  }
+}
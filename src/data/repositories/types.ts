@@ -0,0 +1,94 @@
+/**
+ * Repository Types
+ * Persistence interfaces for scenes and user preferences
+ * Matches data models of the backend API (see docs/BACKEND_INTEGRATION.md)
+ */
+
+import type { MapConfig } from '../mapConfig';
+import type { CharacterSaveData } from '../CharacterStorage';
+import type { Language } from '../../types/Language';
+
+// ============================================
+// Scenes
+// ============================================
+
+/**
+ * Scene in the library without its config
+ */
+export interface SceneSummary {
+  id: string;
+  name: string;
+  createdAt: string;  // ISO timestamp
+  updatedAt: string;  // ISO timestamp, also used as version for conflict detection
+}
+
+/**
+ * Scene with its map configuration
+ */
+export interface StoredScene extends SceneSummary {
+  config: MapConfig;
+}
+
+/**
+ * Options for saving scene config
+ */
+export interface SceneSaveOptions {
+  /**
+   * updatedAt of the version the changes are based on
+   * Save fails with SceneConflictError if the scene was changed since
+   */
+  expectedUpdatedAt?: string;
+}
+
+/**
+ * Storage of the scene library
+ * Async, so scenes can be kept locally or on a server behind the same interface
+ */
+export interface SceneRepository {
+  /** List all scenes (sorted by name) */
+  list(): Promise<SceneSummary[]>;
+  /** Get scene with config, null if it doesn't exist */
+  get(id: string): Promise<StoredScene | null>;
+  /** Create a new scene (empty world if no config is given) */
+  create(name: string, config?: MapConfig): Promise<StoredScene>;
+  /** Save config of an existing scene */
+  save(id: string, config: MapConfig, options?: SceneSaveOptions): Promise<StoredScene>;
+  /** Rename scene */
+  rename(id: string, name: string): Promise<SceneSummary>;
+  /** Copy scene with its config under a new name */
+  duplicate(id: string, name: string): Promise<StoredScene>;
+  /** Delete scene */
+  delete(id: string): Promise<void>;
+}
+
+// ============================================
+// User Preferences
+// ============================================
+
+/**
+ * Settings of the user kept between sessions
+ * Values that were never set are missing (app defaults are used)
+ */
+export interface UserPreferences {
+  language?: Language;
+  /** Skin of the classic player sprite */
+  playerSkin?: string;
+  /** Background shown instead of scene backgrounds (null = scene background) */
+  backgroundOverride?: string | null;
+  /** Scene shown in game */
+  lastOpenedSceneId?: string | null;
+  /** Modular character (null if not created yet) */
+  character?: CharacterSaveData | null;
+  /** Play as the modular character instead of a skin (if the character exists) */
+  useModularPlayer?: boolean;
+}
+
+/**
+ * Storage of user preferences
+ */
+export interface PreferencesRepository {
+  /** Load stored preferences */
+  get(): Promise<UserPreferences>;
+  /** Save changed values, returns all stored preferences */
+  update(changes: UserPreferences): Promise<UserPreferences>;
+}
@@ -2,6 +2,8 @@
 // Supports multiple character types with different color variants
 // All skins use PNG spritesheets (horizontal strip format)
 
+import { getPreferences, updatePreferences } from './preferences';
+
 // Target rendered height for all player sprites (before any additional scaling)
 export const TARGET_PLAYER_HEIGHT = 240;
 
@@ -68,37 +70,24 @@ export const AVAILABLE_SKINS: SkinConfig[] = [
 export const DEFAULT_SKIN_ID = 'succubus';
 
 class SkinManager {
-  private currentSkinId: string = DEFAULT_SKIN_ID;
-
-  constructor() {
-    // Load from localStorage if available
-    this.loadFromStorage();
-  }
-
-  private loadFromStorage(): void {
-    const stored = localStorage.getItem('playerSkin');
-    if (stored && this.isValidSkinId(stored)) {
-      this.currentSkinId = stored;
-    }
-  }
-
   private isValidSkinId(id: string): boolean {
     return AVAILABLE_SKINS.some(skin => skin.id === id);
   }
 
   setSkin(skinId: string): void {
     if (this.isValidSkinId(skinId)) {
-      this.currentSkinId = skinId;
-      localStorage.setItem('playerSkin', skinId);
+      updatePreferences({ playerSkin: skinId });
     }
   }
 
+  /** Get current skin ID (from user preferences, default skin if not set) */
   getSkinId(): string {
-    return this.currentSkinId;
+    const stored = getPreferences().playerSkin;
+    return stored && this.isValidSkinId(stored) ? stored : DEFAULT_SKIN_ID;
   }
 
   getSkinConfig(): SkinConfig {
-    return AVAILABLE_SKINS.find(skin => skin.id === this.currentSkinId) || AVAILABLE_SKINS[0];
+    return AVAILABLE_SKINS.find(skin => skin.id === this.getSkinId()) || AVAILABLE_SKINS[0];
   }
 
   getSkinById(id: string): SkinConfig | undefined {
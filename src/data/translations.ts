@@ -0,0 +1,323 @@
+/**
+ * Scene translations
+ * Collects translatable texts of dialog zones and NPC dialogs as units keyed
+ * by entity ID, applies translated units back (see utils/translationFile.ts
+ * for XLIFF and PO files) and reports missing texts per language
+ */
+
+import type { MapConfig, PlacedNPC } from './mapConfig';
+import type { DialogZone, LocalizedText } from '../types/DialogTypes';
+import { getSceneLanguages, type Language } from '../types/Language';
+import { setLocalizedContent } from './dialogTree';
+import { getZoneRect } from '../utils/dialogZoneLayout';
+import type { MessageKey, MessageParams } from './messages';
+
+/**
+ * State of a unit in the target language
+ * - untranslated: target text is missing or empty
+ * - translated: target text is up to date
+ * - stale: source text changed since the translation was imported
+ */
+export type TranslationUnitState = 'untranslated' | 'translated' | 'stale';
+
+/**
+ * Single translatable text of a scene
+ */
+export interface TranslationUnit {
+  /** 'zone.<zoneId>', 'npc.<npcId>.<nodeId>' or 'npc.<npcId>.<nodeId>.<choiceId>' (valid XLIFF unit ID) */
+  id: string;
+  /** Where the text is shown (note for translators) */
+  note: string;
+  source: string;
+  /** Empty if untranslated */
+  target: string;
+  state: TranslationUnitState;
+}
+
+/**
+ * Translation read from a file
+ */
+export interface ImportedTranslation {
+  id: string;
+  /** Source text the translation was made from */
+  source: string;
+  /** Empty if not translated in the file */
+  target: string;
+  /** Translator marked the translation as done (PO entry without fuzzy flag, XLIFF segment past 'initial') */
+  confirmed: boolean;
+}
+
+/**
+ * Result of applying imported translations
+ */
+export interface TranslationImportReport {
+  /** IDs of units whose translation was applied */
+  applied: string[];
+  /** IDs of units left untranslated in the file */
+  untranslated: string[];
+  /** IDs of units whose source changed since the export, or stale translations sent back unchanged and unconfirmed (not applied) */
+  stale: string[];
+  /** IDs not found in the scene (entity deleted since the export) */
+  unknown: string[];
+}
+
+/**
+ * Get source language of scene translations (first language of the scene)
+ */
+export function getTranslationSourceLanguage(config: MapConfig): Language {
+  return getSceneLanguages(config.languages)[0].code;
+}
+
+/**
+ * Hash of a source text, stored with translations to detect stale ones
+ * (FNV-1a, 32 bit)
+ */
+export function hashSourceText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Keep source hash of a translation edited in the builder up to date
+ * Edited translation counts as made for the current source text, so a stale
+ * translation fixed by hand is no longer stale (texts without hash are left
+ * as they are)
+ */
+export function refreshSourceHash(texts: LocalizedText[], language: Language, sourceLanguage: Language): LocalizedText[] {
+  if (language === sourceLanguage) return texts;
+
+  const sourceHash = hashSourceText(texts.find(text => text.language === sourceLanguage)?.content ?? '');
+  return texts.map(text =>
+    text.language === language && text.sourceHash !== undefined ? { ...text, sourceHash } : text
+  );
+}
+
+/**
+ * Zone or NPC whose texts are translated (builder jumps to its position)
+ */
+export interface TranslationEntity {
+  type: 'zone' | 'npc';
+  id: string;
+  /** Message of a short description for lists ('Dialog zone at x={x}') */
+  labelKey: MessageKey;
+  labelParams: MessageParams;
+  /** Center of the entity in world coordinates */
+  x: number;
+  y: number;
+}
+
+/**
+ * Entities with missing texts in one language
+ */
+export interface LanguageCompleteness {
+  language: Language;
+  /** Number of texts in the scene (zones, NPC pages and choices) */
+  total: number;
+  /** Number of texts with content in the language */
+  translated: number;
+  /** Entities with at least one missing or empty text, in scene order */
+  missing: { entity: TranslationEntity; count: number }[];
+}
+
+/** Single text of a scene with its unit ID */
+interface TextSlot {
+  id: string;
+  note: string;
+  entity: TranslationEntity;
+  texts: LocalizedText[];
+}
+
+function getContent(texts: LocalizedText[], language: Language): string {
+  return texts.find(text => text.language === language)?.content ?? '';
+}
+
+function getZoneSlot(zone: DialogZone, worldHeight: number): TextSlot {
+  const rect = getZoneRect(zone, worldHeight);
+  const x = Math.round(zone.x);
+  return {
+    id: `zone.${zone.id}`,
+    note: `Dialog zone at x=${x}`,
+    entity: {
+      type: 'zone',
+      id: zone.id,
+      labelKey: 'translations.zoneEntity',
+      labelParams: { x },
+      x: rect.x + rect.width / 2,
+      y: rect.y + rect.height / 2,
+    },
+    texts: zone.texts,
+  };
+}
+
+function getNPCSlots(npc: PlacedNPC): TextSlot[] {
+  const x = Math.round(npc.x);
+  // Notes for translators stay in English, the label is shown in the builder
+  const label = `NPC ${npc.npcId} at x=${x}`;
+  const entity: TranslationEntity = {
+    type: 'npc',
+    id: npc.id,
+    labelKey: 'translations.npcEntity',
+    labelParams: { npc: npc.npcId, x },
+    x: npc.x,
+    y: npc.y,
+  };
+
+  return (npc.dialog?.nodes ?? []).flatMap((node, nodeIndex) => {
+    const nodeId = `npc.${npc.id}.${node.id}`;
+    const page = `${label}, page ${nodeIndex + 1}`;
+    return [
+      { id: nodeId, note: page, entity, texts: node.texts },
+      ...node.choices.map((choice, choiceIndex) => ({
+        id: `${nodeId}.${choice.id}`,
+        note: `${page}, choice ${choiceIndex + 1}`,
+        entity,
+        texts: choice.texts,
+      })),
+    ];
+  });
+}
+
+/**
+ * Get all texts of a scene
+ * Zones come first ordered by position, then NPC pages with their choices
+ */
+function getTextSlots(config: MapConfig): TextSlot[] {
+  const zoneSlots = [...(config.dialogZones ?? [])]
+    .sort((a, b) => a.x - b.x)
+    .map(zone => getZoneSlot(zone, config.worldHeight));
+
+  return [...zoneSlots, ...(config.placedNPCs ?? []).flatMap(getNPCSlots)];
+}
+
+function createUnit(slot: TextSlot, sourceLanguage: Language, targetLanguage: Language): TranslationUnit | null {
+  const source = getContent(slot.texts, sourceLanguage);
+  if (source.trim() === '') return null;
+
+  const translation = slot.texts.find(text => text.language === targetLanguage);
+  const target = translation?.content ?? '';
+
+  let state: TranslationUnitState = 'translated';
+  if (target.trim() === '') {
+    state = 'untranslated';
+  } else if (translation?.sourceHash !== undefined && translation.sourceHash !== hashSourceText(source)) {
+    state = 'stale';
+  }
+
+  return { id: slot.id, note: slot.note, source, target, state };
+}
+
+/**
+ * Collect translatable texts of a scene (texts without source content are left out)
+ * Zones come first ordered by position, then NPC pages with their choices
+ */
+export function collectTranslationUnits(config: MapConfig, sourceLanguage: Language, targetLanguage: Language): TranslationUnit[] {
+  return getTextSlots(config)
+    .map(slot => createUnit(slot, sourceLanguage, targetLanguage))
+    .filter((unit): unit is TranslationUnit => unit !== null);
+}
+
+/**
+ * Get how complete texts of a scene are in each language
+ * Text is missing when it has no content in the language itself (fallback
+ * languages shown in the game don't count)
+ */
+export function getTranslationCompleteness(config: MapConfig, languages: Language[]): LanguageCompleteness[] {
+  const slots = getTextSlots(config);
+
+  return languages.map(language => {
+    const missing = new Map<TranslationEntity, number>();
+    for (const slot of slots) {
+      if (getContent(slot.texts, language).trim() === '') {
+        missing.set(slot.entity, (missing.get(slot.entity) ?? 0) + 1);
+      }
+    }
+
+    const missingCount = [...missing.values()].reduce((sum, count) => sum + count, 0);
+    return {
+      language,
+      total: slots.length,
+      translated: slots.length - missingCount,
+      missing: [...missing].map(([entity, count]) => ({ entity, count })),
+    };
+  });
+}
+
+/**
+ * Set translated content with hash of its source
+ */
+function setTranslation(texts: LocalizedText[], language: Language, content: string, source: string): LocalizedText[] {
+  return setLocalizedContent(texts, language, content).map(text =>
+    text.language === language ? { ...text, sourceHash: hashSourceText(source) } : text
+  );
+}
+
+/**
+ * Apply translations read from a file to a scene
+ * Translation is applied only when its source matches the current source
+ * text, otherwise it's reported as stale (stale translation is exported for
+ * review, so it stays stale when it comes back unchanged, unless the
+ * translator confirmed it). Config is not changed in place.
+ */
+export function applyTranslations(
+  config: MapConfig,
+  entries: ImportedTranslation[],
+  sourceLanguage: Language,
+  targetLanguage: Language
+): { config: MapConfig; report: TranslationImportReport } {
+  const report: TranslationImportReport = { applied: [], untranslated: [], stale: [], unknown: [] };
+  const units = new Map(collectTranslationUnits(config, sourceLanguage, targetLanguage).map(unit => [unit.id, unit]));
+  const accepted = new Map<string, ImportedTranslation>();
+
+  for (const entry of entries) {
+    const unit = units.get(entry.id);
+    if (!unit) {
+      report.unknown.push(entry.id);
+    } else if (entry.target.trim() === '') {
+      report.untranslated.push(entry.id);
+    } else if (entry.source !== unit.source || (unit.state === 'stale' && entry.target === unit.target && !entry.confirmed)) {
+      report.stale.push(entry.id);
+    } else {
+      accepted.set(entry.id, entry);
+      report.applied.push(entry.id);
+    }
+  }
+
+  const translate = (id: string, texts: LocalizedText[]): LocalizedText[] => {
+    const entry = accepted.get(id);
+    return entry ? setTranslation(texts, targetLanguage, entry.target, entry.source) : texts;
+  };
+
+  const translateZone = (zone: DialogZone): DialogZone => {
+    const id = `zone.${zone.id}`;
+    return accepted.has(id) ? { ...zone, texts: translate(id, zone.texts) } : zone;
+  };
+
+  const translateNPC = (npc: PlacedNPC): PlacedNPC => {
+    if (!npc.dialog) return npc;
+
+    const nodes = npc.dialog.nodes.map(node => {
+      const nodeId = `npc.${npc.id}.${node.id}`;
+      return {
+        ...node,
+        texts: translate(nodeId, node.texts),
+        choices: node.choices.map(choice => ({ ...choice, texts: translate(`${nodeId}.${choice.id}`, choice.texts) })),
+      };
+    });
+    return { ...npc, dialog: { ...npc.dialog, nodes } };
+  };
+
+  if (accepted.size === 0) return { config, report };
+
+  return {
+    config: {
+      ...config,
+      dialogZones: config.dialogZones?.map(translateZone),
+      placedNPCs: config.placedNPCs?.map(translateNPC),
+    },
+    report,
+  };
+}
@@ -126,6 +126,13 @@ export class ModularPlayer extends Phaser.GameObjects.Container implements IPlay
     };
   }
   
+  /**
+   * Check if interact key was pressed since the last call (IPlayer interface)
+   */
+  consumeInteractPress(): boolean {
+    return this.inputController.consumeInteractPress();
+  }
+  
   /**
    * Set facing direction (public for IPlayer interface)
    */
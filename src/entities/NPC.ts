@@ -1,8 +1,15 @@
 import Phaser from 'phaser';
 import type { PlacedNPC } from '../data/mapConfig';
+import type { DialogTrigger } from '../types/DialogTypes';
 import { getNPCDefinition, type NPCDefinition } from '../data/npcs/npcRegistry';
 import { NPCState } from './npc/NPCState';
-import { IdleState } from './npc/states/IdleState';
+import { createNPCState } from './npc/npcStateRegistry';
+import {
+  getInitialNPCState,
+  getNextNPCState,
+  type NPCBehavior,
+  type NPCStateType
+} from '../types/NPCBehaviorTypes';
 
 /**
  * Represents an NPC entity in the game world.
@@ -19,6 +26,7 @@ export class NPC extends Phaser.Physics.Arcade.Sprite {
   public npcId: string;
   private dialogData?: PlacedNPC['dialog'];
   private _triggerRadius: number;
+  private _dialogTrigger?: DialogTrigger;
   private selectionIndicator?: Phaser.GameObjects.Rectangle;
   private radiusIndicator?: Phaser.GameObjects.Arc;
   private _isSelected: boolean = false;
@@ -27,12 +35,25 @@ export class NPC extends Phaser.Physics.Arcade.Sprite {
   private _topOffset: number = 0;
   
   private currentState?: NPCState;
+  private currentStateType?: NPCStateType;
+  private behavior: NPCBehavior;
+  /** Placed position, patrol and wander are relative to it */
+  private origin: { x: number; y: number };
+  /** Player position and dialog state, set by the scene every frame (game mode) */
+  private _playerPosition: { x: number; y: number } | null = null;
+  private dialogOpen: boolean = false;
+  /** State to resume after talking (set while the NPC talks without a configured dialog transition) */
+  private stateBeforeTalk?: { type: NPCStateType; state: NPCState };
+  /** Facing of the placed NPC, restored when it stops talking */
+  private restFlipX: boolean;
   
   private static readonly DEFAULT_TRIGGER_RADIUS = 200;
   // Hitbox is 50% of frame width
   private static readonly HITBOX_WIDTH_FACTOR = 0.5;
   // Hitbox is 90% of content height (frame height - top offset)
   private static readonly HITBOX_HEIGHT_FACTOR = 0.9;
+  // Smaller horizontal movement keeps facing (avoids flicker on vertical paths)
+  private static readonly FACING_THRESHOLD = 1;
 
   constructor(scene: Phaser.Scene, config: PlacedNPC, builderMode: boolean = false) {
     const definition = getNPCDefinition(config.npcId);
@@ -46,6 +67,9 @@ export class NPC extends Phaser.Physics.Arcade.Sprite {
     this.npcId = config.npcId;
     this.dialogData = config.dialog;
     this._triggerRadius = config.triggerRadius ?? NPC.DEFAULT_TRIGGER_RADIUS;
+    this._dialogTrigger = config.trigger;
+    this.behavior = config.behavior ?? {};
+    this.origin = { x: config.x, y: config.y };
     this.isBuilderMode = builderMode;
 
     // Add to scene and physics
@@ -55,7 +79,8 @@ export class NPC extends Phaser.Physics.Arcade.Sprite {
     // Setup visual properties
     const scale = config.scale ?? definition.scale;
     this.setScale(scale);
-    this.setFlipX(config.flipX ?? false);
+    this.restFlipX = config.flipX ?? false;
+    this.setFlipX(this.restFlipX);
     
     // Store topOffset (scaled) for hitbox and dialog positioning
     this._topOffset = (definition.topOffset ?? 0) * scale;
@@ -70,8 +95,8 @@ export class NPC extends Phaser.Physics.Arcade.Sprite {
     // Setup animations - only in game mode
     if (!this.isBuilderMode) {
       this.setupAnimations(definition);
-      // Initialize state machine with Idle state
-      this.setNPCState(new IdleState(this));
+      // Initialize state machine with the configured state (idle by default)
+      this.changeState(getInitialNPCState(this.behavior));
     }
     // In builder mode, just show the first frame (static image)
   }
@@ -88,13 +113,69 @@ export class NPC extends Phaser.Physics.Arcade.Sprite {
     this.currentState.enter();
   }
 
+  /**
+   * Switch to a state from the state registry
+   */
+  public changeState(type: NPCStateType) {
+    this.currentStateType = type;
+    this.setNPCState(createNPCState(type, this, this.behavior, this.origin));
+  }
+
+  /**
+   * Update what the NPC knows about the player (called by the scene every frame)
+   * @param dialogOpen - Dialog of this NPC is shown
+   */
+  public setBehaviorContext(playerX: number, playerY: number, dialogOpen: boolean) {
+    this._playerPosition = { x: playerX, y: playerY };
+    const dialogChanged = dialogOpen !== this.dialogOpen;
+    this.dialogOpen = dialogOpen;
+
+    // NPCs talk during their dialog, unless their transitions decide what happens
+    if (dialogChanged && !this.hasDialogTransitions()) {
+      if (dialogOpen && this.currentState && this.currentStateType) {
+        this.stateBeforeTalk = { type: this.currentStateType, state: this.currentState };
+        this.changeState('talk');
+      } else if (!dialogOpen && this.stateBeforeTalk) {
+        // Resume the same state object, e.g. patrol continues to its target point
+        const { type, state } = this.stateBeforeTalk;
+        this.stateBeforeTalk = undefined;
+        this.currentStateType = type;
+        this.setNPCState(state);
+      }
+    }
+  }
+
+  private hasDialogTransitions(): boolean {
+    return this.behavior.transitions?.some(transition => transition.condition === 'dialogOpen') ?? false;
+  }
+
+  /** Player position (null until the scene sets it) */
+  public get playerPosition(): { x: number; y: number } | null {
+    return this._playerPosition;
+  }
+
   protected preUpdate(time: number, delta: number): void {
     super.preUpdate(time, delta);
+    this.checkTransitions();
     if (this.currentState) {
       this.currentState.update(time, delta);
     }
   }
 
+  private checkTransitions() {
+    // Talking NPC waits for its dialog to close
+    if (this.stateBeforeTalk) return;
+    if (!this.currentStateType || !this.behavior.transitions?.length) return;
+
+    const player = this._playerPosition;
+    const next = getNextNPCState(this.currentStateType, this.behavior.transitions, {
+      playerDistance: player ? Math.hypot(player.x - this.x, player.y - this.y) : null,
+      dialogOpen: this.dialogOpen,
+      defaultRadius: this._triggerRadius,
+    });
+    if (next) this.changeState(next);
+  }
+
   /**
    * Configures the physics body and interactive area based on the NPC definition.
    * Centralizes the logic for hitbox calculations.
@@ -128,18 +209,100 @@ export class NPC extends Phaser.Physics.Arcade.Sprite {
   private setupAnimations(definition: NPCDefinition) {
     if (!definition.animations) return;
 
+    this.createAnimation(`${this.npcId}_idle`, definition.animations.idle);
+    if (definition.animations.interact) {
+      this.createAnimation(`${this.npcId}_interact`, definition.animations.interact);
+    }
+    if (definition.animations.walk) {
+      this.createAnimation(`${this.npcId}_walk`, definition.animations.walk);
+    }
+  }
+
+  private createAnimation(animKey: string, frames: { startFrame: number; endFrame: number; frameRate: number }) {
+    if (this.scene.anims.exists(animKey)) return;
+
+    this.scene.anims.create({
+      key: animKey,
+      frames: this.scene.anims.generateFrameNumbers(this.npcId, {
+        start: frames.startFrame,
+        end: frames.endFrame
+      }),
+      frameRate: frames.frameRate,
+      repeat: -1
+    });
+  }
+
+  public playIdleAnimation() {
     const animKey = `${this.npcId}_idle`;
-    if (!this.scene.anims.exists(animKey)) {
-      this.scene.anims.create({
-        key: animKey,
-        frames: this.scene.anims.generateFrameNumbers(this.npcId, {
-          start: definition.animations.idle.startFrame,
-          end: definition.animations.idle.endFrame
-        }),
-        frameRate: definition.animations.idle.frameRate,
-        repeat: -1
-      });
+    if (this.anims.exists(animKey)) {
+      this.play(animKey, true);
+    }
+  }
+
+  /**
+   * Play walk animation (idle for NPCs without one)
+   */
+  public playWalkAnimation() {
+    const animKey = `${this.npcId}_walk`;
+    if (this.anims.exists(animKey)) {
+      this.play(animKey, true);
+    } else {
+      this.playIdleAnimation();
+    }
+  }
+
+  /**
+   * Play interact animation (idle for NPCs without one)
+   */
+  public playInteractAnimation() {
+    const animKey = `${this.npcId}_interact`;
+    if (this.anims.exists(animKey)) {
+      this.play(animKey, true);
+    } else {
+      this.playIdleAnimation();
+    }
+  }
+
+  /**
+   * Face direction of horizontal movement (sprites face right)
+   */
+  public faceDirection(dx: number) {
+    if (Math.abs(dx) > NPC.FACING_THRESHOLD) {
+      this.setFlipX(dx < 0);
+    }
+  }
+
+  /**
+   * Face like the placed NPC (PlacedNPC.flipX)
+   */
+  public faceRestPose() {
+    this.setFlipX(this.restFlipX);
+  }
+
+  public facePlayer() {
+    if (this._playerPosition) {
+      this.faceDirection(this._playerPosition.x - this.x);
+    }
+  }
+
+  /**
+   * Walk towards a point, facing the direction of movement
+   * @returns Whether the point was reached (NPC stops there)
+   */
+  public moveTowards(x: number, y: number, speed: number, delta: number): boolean {
+    const dx = x - this.x;
+    const dy = y - this.y;
+    const distance = Math.hypot(dx, dy);
+
+    if (distance <= (speed * delta) / 1000) {
+      this.setPosition(x, y);
+      this.setVelocity(0, 0);
+      return true;
     }
+
+    this.setVelocity((dx / distance) * speed, (dy / distance) * speed);
+    this.faceDirection(dx);
+    return false;
   }
 
   public updateDialog(newDialog: PlacedNPC['dialog']) {
@@ -177,7 +340,19 @@ export class NPC extends Phaser.Physics.Arcade.Sprite {
     }
   }
   
+  /**
+   * When dialog is shown in trigger radius (undefined = on enter)
+   */
+  public get dialogTrigger(): DialogTrigger | undefined {
+    return this._dialogTrigger;
+  }
+  
+  public setDialogTrigger(trigger: DialogTrigger | undefined) {
+    this._dialogTrigger = trigger;
+  }
+  
   public setFlipped(flip: boolean) {
+    this.restFlipX = flip;
     this.setFlipX(flip);
   }
   
@@ -128,6 +128,13 @@ export class Player extends Phaser.Physics.Arcade.Sprite implements IPlayer {
     };
   }
   
+  /**
+   * Check if interact key was pressed since the last call (IPlayer interface)
+   */
+  consumeInteractPress(): boolean {
+    return this.inputController.consumeInteractPress();
+  }
+  
   /**
    * Set facing direction
    */
@@ -1,5 +1,5 @@
 /**
- * PlayerInputController - Handles all player input (keyboard and touch)
+ * PlayerInputController - Handles all player input (keyboard, touch and gamepad interact)
  * 
  * Separates input handling from player sprite for:
  * - Better testability
@@ -9,8 +9,10 @@
 
 import Phaser from 'phaser';
 import { get } from 'svelte/store';
-import { frameClickBlocked } from '../stores';
-import { isPointerOverUI } from '../utils/inputUtils';
+import { frameClickBlocked, lastInputDevice } from '../stores';
+import { isPointerOverUI, isTypingInTextField } from '../utils/inputUtils';
+import { advanceDialog } from '../utils/dialogAdvance';
+import { EventBus, EVENTS } from '../events/EventBus';
 
 // Touch control constants
 export const TOUCH_CONFIG = {
@@ -21,6 +23,11 @@ export const TOUCH_CONFIG = {
   SKIN_BUTTON: { width: 120, height: 60, yOffset: 60 },
 } as const;
 
+// Gamepad constants (standard mapping)
+export const GAMEPAD_CONFIG = {
+  INTERACT_BUTTON: 0, // A (Xbox) / Cross (PlayStation)
+} as const;
+
 // Movement constants
 export const MOVEMENT_CONFIG = {
   SPEED: 280,
@@ -54,6 +61,19 @@ export class PlayerInputController {
   private keyA?: Phaser.Input.Keyboard.Key;
   private keyD?: Phaser.Input.Keyboard.Key;
   private keyW?: Phaser.Input.Keyboard.Key;
+  // Interact (opens dialogs in interact trigger mode)
+  private keyE?: Phaser.Input.Keyboard.Key;
+  private interactPressed: boolean = false;
+  private interactDownHandler?: () => void;
+  // Tap on interact prompt (UI overlay) and gamepad interact button
+  private interactSubscription?: { unsubscribe: () => void };
+  private gamepadDownHandler?: (pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button) => void;
+  private keyboardDeviceHandler?: () => void;
+  
+  // Space press used by dialog doesn't jump (until the key is released)
+  private spaceUsedByDialog: boolean = false;
+  private spaceDownHandler?: () => void;
+  private spaceUpHandler?: () => void;
   
   // Touch state
   private touchLeft: boolean = false;
@@ -73,6 +93,7 @@ export class PlayerInputController {
     
     this.setupKeyboardControls();
     this.setupTouchControls();
+    this.setupInteractControls();
   }
 
   /**
@@ -90,6 +111,50 @@ export class PlayerInputController {
       this.keyA = this.scene.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.A, false);
       this.keyD = this.scene.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.D, false);
       this.keyW = this.scene.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.W, false);
+
+      // Space advances shown dialog first, jumps only if no dialog used it
+      this.spaceDownHandler = () => {
+        if (isTypingInTextField()) return;
+        this.spaceUsedByDialog = advanceDialog();
+      };
+      this.spaceUpHandler = () => {
+        this.spaceUsedByDialog = false;
+      };
+      this.keySpace.on('down', this.spaceDownHandler);
+      this.keySpace.on('up', this.spaceUpHandler);
+
+      // Interact key is remembered until the scene reads it
+      this.keyE = this.scene.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.E, false);
+      this.interactDownHandler = () => {
+        if (isTypingInTextField()) return;
+        this.interactPressed = true;
+      };
+      this.keyE.on('down', this.interactDownHandler);
+    }
+  }
+
+  /**
+   * Setup interact press by tapping the prompt and by gamepad
+   * Also tracks the input device, so the prompt shows the right button
+   */
+  private setupInteractControls(): void {
+    this.interactSubscription = EventBus.on(EVENTS.PLAYER_INTERACT, () => {
+      this.interactPressed = true;
+    });
+
+    if (this.scene.input.gamepad) {
+      this.gamepadDownHandler = (_pad, button) => {
+        lastInputDevice.set('gamepad');
+        if (button.index === GAMEPAD_CONFIG.INTERACT_BUTTON) {
+          this.interactPressed = true;
+        }
+      };
+      this.scene.input.gamepad.on('down', this.gamepadDownHandler);
+    }
+
+    if (this.scene.input.keyboard) {
+      this.keyboardDeviceHandler = () => lastInputDevice.set('keyboard');
+      this.scene.input.keyboard.on('keydown', this.keyboardDeviceHandler);
     }
   }
 
@@ -155,6 +220,7 @@ export class PlayerInputController {
     const pointerdownHandler = (pointer: Phaser.Input.Pointer) => {
       // Skip if pointer is over UI element
       if (isPointerOverUI()) return;
+      if (pointer.wasTouch) lastInputDevice.set('touch');
       handlePointer(pointer);
     };
 
@@ -190,11 +256,21 @@ export class PlayerInputController {
   getInputState(): InputState {
     const left = this.keyA?.isDown || this.keyLeft?.isDown || this.touchLeft || false;
     const right = this.keyD?.isDown || this.keyRight?.isDown || this.touchRight || false;
-    const jump = this.keySpace?.isDown || this.keyUp?.isDown || this.keyW?.isDown || this.touchJump || false;
+    const space = (this.keySpace?.isDown ?? false) && !this.spaceUsedByDialog;
+    const jump = space || this.keyUp?.isDown || this.keyW?.isDown || this.touchJump || false;
     
     return { left, right, jump };
   }
 
+  /**
+   * Check if interact was pressed (E, prompt tap, gamepad) since the last call
+   */
+  consumeInteractPress(): boolean {
+    const pressed = this.interactPressed;
+    this.interactPressed = false;
+    return pressed;
+  }
+
   /**
    * Check if any input is active
    */
@@ -207,6 +283,26 @@ export class PlayerInputController {
    * Cleanup event listeners
    */
   destroy(): void {
+    if (this.spaceDownHandler) {
+      this.keySpace?.off('down', this.spaceDownHandler);
+      this.keySpace?.off('up', this.spaceUpHandler);
+      this.spaceDownHandler = undefined;
+      this.spaceUpHandler = undefined;
+    }
+    if (this.interactDownHandler) {
+      this.keyE?.off('down', this.interactDownHandler);
+      this.interactDownHandler = undefined;
+    }
+    this.interactSubscription?.unsubscribe();
+    this.interactSubscription = undefined;
+    if (this.gamepadDownHandler) {
+      this.scene.input.gamepad?.off('down', this.gamepadDownHandler);
+      this.gamepadDownHandler = undefined;
+    }
+    if (this.keyboardDeviceHandler) {
+      this.scene.input.keyboard?.off('keydown', this.keyboardDeviceHandler);
+      this.keyboardDeviceHandler = undefined;
+    }
     if (this.touchHandlers) {
       this.scene.input.off('pointerdown', this.touchHandlers.pointerdown);
       this.scene.input.off('pointermove', this.touchHandlers.pointermove);
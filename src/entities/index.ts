@@ -73,6 +73,9 @@ export interface IPlayer {
   /** Get world-space hit bounds for selection/interaction */
   getHitBounds(): HitBounds;
   
+  /** Check if interact key was pressed since the last call (opens dialogs) */
+  consumeInteractPress(): boolean;
+  
   // ========== Visual State ==========
   
   /** Set facing direction */
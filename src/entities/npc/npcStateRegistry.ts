@@ -0,0 +1,43 @@
+import type { NPC } from '../NPC';
+import type { NPCState } from './NPCState';
+import type { NPCBehavior, NPCStateType } from '../../types/NPCBehaviorTypes';
+import { IdleState } from './states/IdleState';
+import { PatrolState } from './states/PatrolState';
+import { WanderState } from './states/WanderState';
+import { FacePlayerState } from './states/FacePlayerState';
+import { TalkState } from './states/TalkState';
+import { FollowState } from './states/FollowState';
+
+/**
+ * Creates a state for an NPC
+ * @param origin - Placed position of the NPC (patrol and wander are relative to it)
+ */
+type NPCStateFactory = (npc: NPC, behavior: NPCBehavior, origin: { x: number; y: number }) => NPCState;
+
+/**
+ * Registry of NPC states, keyed by the state types used in PlacedNPC.behavior
+ */
+export const NPC_STATE_REGISTRY: Record<NPCStateType, NPCStateFactory> = {
+  idle: (npc) => new IdleState(npc),
+  // NPC without waypoints stands at its placed position
+  patrol: (npc, behavior, origin) => behavior.patrol?.waypoints.length
+    ? new PatrolState(npc, behavior.patrol, origin.x, origin.y)
+    : new IdleState(npc),
+  wander: (npc, behavior, origin) => new WanderState(npc, behavior.wander ?? {}, origin.x, origin.y),
+  facePlayer: (npc) => new FacePlayerState(npc),
+  talk: (npc) => new TalkState(npc),
+  follow: (npc, behavior) => new FollowState(npc, behavior.follow ?? {}),
+};
+
+/**
+ * Create state of a type (unknown types from hand-edited configs are idle)
+ */
+export function createNPCState(
+  type: NPCStateType,
+  npc: NPC,
+  behavior: NPCBehavior,
+  origin: { x: number; y: number }
+): NPCState {
+  const factory = NPC_STATE_REGISTRY[type] ?? NPC_STATE_REGISTRY.idle;
+  return factory(npc, behavior, origin);
+}
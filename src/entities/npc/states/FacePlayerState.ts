@@ -0,0 +1,20 @@
+import { NPCState } from '../NPCState';
+
+/**
+ * Stands still and turns to the player
+ */
+export class FacePlayerState extends NPCState {
+  enter(): void {
+    this.npc.setVelocity(0, 0);
+    this.npc.playIdleAnimation();
+    this.npc.facePlayer();
+  }
+
+  update(_time: number, _delta: number): void {
+    this.npc.facePlayer();
+  }
+
+  exit(): void {
+    // Cleanup if needed
+  }
+}
@@ -0,0 +1,52 @@
+import { NPCState } from '../NPCState';
+import type { NPC } from '../../NPC';
+import { DEFAULT_FOLLOW_DISTANCE, DEFAULT_FOLLOW_SPEED, type NPCFollow } from '../../../types/NPCBehaviorTypes';
+
+/**
+ * Walks after the player horizontally and stops near them
+ */
+export class FollowState extends NPCState {
+  private distance: number;
+  private speed: number;
+  private isWalking: boolean = false;
+
+  constructor(npc: NPC, follow: NPCFollow) {
+    super(npc);
+    this.distance = follow.distance ?? DEFAULT_FOLLOW_DISTANCE;
+    this.speed = follow.speed ?? DEFAULT_FOLLOW_SPEED;
+  }
+
+  enter(): void {
+    this.stop();
+  }
+
+  update(_time: number, delta: number): void {
+    const player = this.npc.playerPosition;
+    if (!player) return;
+
+    const dx = player.x - this.npc.x;
+    if (Math.abs(dx) <= this.distance) {
+      if (this.isWalking) this.stop();
+      this.npc.faceDirection(dx);
+      return;
+    }
+
+    // Target is the point at follow distance on the near side of the player
+    const targetX = player.x - Math.sign(dx) * this.distance;
+    this.npc.moveTowards(targetX, this.npc.y, this.speed, delta);
+    if (!this.isWalking) {
+      this.isWalking = true;
+      this.npc.playWalkAnimation();
+    }
+  }
+
+  exit(): void {
+    this.npc.setVelocity(0, 0);
+  }
+
+  private stop(): void {
+    this.isWalking = false;
+    this.npc.setVelocity(0, 0);
+    this.npc.playIdleAnimation();
+  }
+}
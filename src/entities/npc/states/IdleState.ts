@@ -3,10 +3,9 @@ import { NPCState } from '../NPCState';
 export class IdleState extends NPCState {
   enter(): void {
     // Play idle animation if available
-    const animKey = `${this.npc.npcId}_idle`;
-    if (this.npc.anims.exists(animKey)) {
-      this.npc.play(animKey, true);
-    }
+    this.npc.playIdleAnimation();
+    // Turn back after talking or facing the player
+    this.npc.faceRestPose();
     
     this.npc.setVelocity(0, 0);
   }
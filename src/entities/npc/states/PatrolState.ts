@@ -1,26 +1,65 @@
 import { NPCState } from '../NPCState';
+import type { NPC } from '../../NPC';
+import {
+  DEFAULT_PATROL_MODE,
+  DEFAULT_PATROL_SPEED,
+  getNextPatrolIndex,
+  getPatrolPoints,
+  type NPCPatrol,
+  type NPCPatrolMode,
+  type PatrolPoint,
+} from '../../../types/NPCBehaviorTypes';
 
+/**
+ * Walks the NPC along its patrol path, waiting at each point
+ * NPC faces its direction of travel and plays walk animation while moving
+ */
 export class PatrolState extends NPCState {
-  private direction: number = 1;
-  private moveSpeed: number = 30;
-  private patrolTimer: number = 0;
-  private readonly PATROL_DURATION = 2000; // ms
+  private points: PatrolPoint[];
+  private speed: number;
+  private mode: NPCPatrolMode;
+  private targetIndex: number = 0;
+  private direction: 1 | -1 = 1;
+  /** Remaining wait at the reached point (ms) */
+  private waitRemaining: number = 0;
+  private hasStarted: boolean = false;
+
+  constructor(npc: NPC, patrol: NPCPatrol, originX: number, originY: number) {
+    super(npc);
+    this.points = getPatrolPoints(patrol, originX, originY);
+    this.speed = patrol.speed ?? DEFAULT_PATROL_SPEED;
+    this.mode = patrol.mode ?? DEFAULT_PATROL_MODE;
+  }
 
   enter(): void {
-    this.patrolTimer = 0;
-    // Pick random direction
-    this.direction = Math.random() > 0.5 ? 1 : -1;
-    this.updateVelocity();
+    if (!this.hasStarted) {
+      // Walk to the nearest point first (NPC may have left the path, e.g. following the player)
+      this.hasStarted = true;
+      this.targetIndex = this.getNearestPointIndex();
+      this.direction = 1;
+      this.waitRemaining = 0;
+    }
+
+    // Resumed patrol (e.g. after talking) continues where it stopped
+    if (this.waitRemaining > 0) {
+      this.npc.playIdleAnimation();
+    } else {
+      this.npc.playWalkAnimation();
+    }
   }
 
   update(_time: number, delta: number): void {
-    this.patrolTimer += delta;
+    if (this.points.length < 2) return;
+
+    if (this.waitRemaining > 0) {
+      this.waitRemaining -= delta;
+      if (this.waitRemaining <= 0) this.walkToNextPoint();
+      return;
+    }
 
-    // Simple patrol logic: switch direction every few seconds
-    if (this.patrolTimer > this.PATROL_DURATION) {
-      this.direction *= -1;
-      this.patrolTimer = 0;
-      this.updateVelocity();
+    const target = this.points[this.targetIndex];
+    if (this.npc.moveTowards(target.x, target.y, this.speed, delta)) {
+      this.arrive();
     }
   }
 
@@ -28,8 +67,34 @@ export class PatrolState extends NPCState {
     this.npc.setVelocity(0, 0);
   }
 
-  private updateVelocity() {
-    this.npc.setVelocityX(this.moveSpeed * this.direction);
-    this.npc.setFlipX(this.direction < 0);
+  /** Stop at the target point and wait there */
+  private arrive(): void {
+    this.npc.playIdleAnimation();
+
+    this.waitRemaining = this.points[this.targetIndex].waitSeconds * 1000;
+    if (this.waitRemaining <= 0) this.walkToNextPoint();
+  }
+
+  private walkToNextPoint(): void {
+    if (this.points.length < 2) return;
+
+    const next = getNextPatrolIndex(this.targetIndex, this.direction, this.points.length, this.mode);
+    this.targetIndex = next.index;
+    this.direction = next.direction;
+    this.waitRemaining = 0;
+    this.npc.playWalkAnimation();
+  }
+
+  private getNearestPointIndex(): number {
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    this.points.forEach((point, index) => {
+      const distance = Math.hypot(point.x - this.npc.x, point.y - this.npc.y);
+      if (distance < nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
   }
 }
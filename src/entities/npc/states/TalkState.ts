@@ -0,0 +1,20 @@
+import { NPCState } from '../NPCState';
+
+/**
+ * Turns to the player and plays the interact animation
+ */
+export class TalkState extends NPCState {
+  enter(): void {
+    this.npc.setVelocity(0, 0);
+    this.npc.playInteractAnimation();
+    this.npc.facePlayer();
+  }
+
+  update(_time: number, _delta: number): void {
+    this.npc.facePlayer();
+  }
+
+  exit(): void {
+    // Next state plays its own animation
+  }
+}
@@ -0,0 +1,69 @@
+import Phaser from 'phaser';
+import { NPCState } from '../NPCState';
+import type { NPC } from '../../NPC';
+import {
+  DEFAULT_WANDER_RANGE_X,
+  DEFAULT_WANDER_SPEED,
+  DEFAULT_WANDER_WAIT_SECONDS,
+  type NPCWander,
+} from '../../../types/NPCBehaviorTypes';
+
+/**
+ * Walks to random points around the placed position, waiting at each one
+ */
+export class WanderState extends NPCState {
+  private bounds: Phaser.Geom.Rectangle;
+  private speed: number;
+  private waitMs: number;
+  private target: { x: number; y: number } | null = null;
+  /** Remaining wait before picking next point (ms) */
+  private waitRemaining: number = 0;
+
+  constructor(npc: NPC, wander: NPCWander, originX: number, originY: number) {
+    super(npc);
+    const rangeX = wander.rangeX ?? DEFAULT_WANDER_RANGE_X;
+    const rangeY = wander.rangeY ?? 0;
+    this.bounds = new Phaser.Geom.Rectangle(originX - rangeX, originY - rangeY, rangeX * 2, rangeY * 2);
+    this.speed = wander.speed ?? DEFAULT_WANDER_SPEED;
+    this.waitMs = (wander.waitSeconds ?? DEFAULT_WANDER_WAIT_SECONDS) * 1000;
+  }
+
+  enter(): void {
+    this.target = null;
+    this.wait();
+  }
+
+  update(_time: number, delta: number): void {
+    if (!this.target) {
+      this.waitRemaining -= delta;
+      if (this.waitRemaining <= 0) this.pickTarget();
+      return;
+    }
+
+    if (this.npc.moveTowards(this.target.x, this.target.y, this.speed, delta)) {
+      this.target = null;
+      this.wait();
+    }
+  }
+
+  exit(): void {
+    this.npc.setVelocity(0, 0);
+  }
+
+  private wait(): void {
+    this.npc.setVelocity(0, 0);
+    this.npc.playIdleAnimation();
+    this.waitRemaining = this.waitMs;
+  }
+
+  private pickTarget(): void {
+    // Stay inside the world
+    const worldBounds = this.npc.scene.physics.world.bounds;
+    const area = Phaser.Geom.Rectangle.Intersection(this.bounds, worldBounds);
+    this.target = {
+      x: area.x + Math.random() * area.width,
+      y: area.y + Math.random() * area.height,
+    };
+    this.npc.playWalkAnimation();
+  }
+}
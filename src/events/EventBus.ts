@@ -167,6 +167,7 @@ export const EVENTS = {
   PLAYER_POSITION_CHANGED: 'player:positionChanged',
   PLAYER_DRAG_START: 'player:dragStart',
   PLAYER_DRAG_END: 'player:dragEnd',
+  PLAYER_INTERACT: 'player:interact', // Interact prompt tapped (touch counterpart of E)
   
   // Scene events
   SCENE_TRANSITION: 'scene:transition',
@@ -5,7 +5,7 @@
  */
 
 import Phaser from 'phaser';
-import { updatePlacedItem, selectItem, selectedItemId } from '../stores/builderStores';
+import { updatePlacedItem, selectItem, selectedItemId, isInGroupSelection } from '../stores/builderStores';
 import { setupSpriteInteraction } from '../utils/spriteInteraction';
 import { DRAG_TINT } from '../constants/colors';
 import { get } from 'svelte/store';
@@ -74,6 +74,7 @@ export class ItemDragController {
           // Check if this item is currently selected
           return get(selectedItemId) === id;
         },
+        isInGroup: () => isInGroupSelection(id),
         onDragStart: () => {
           this.isDragging = true;
           sprite.setTint(DRAG_TINT); // Blue drag tint
@@ -24,6 +24,7 @@ export const INTERACTIVE_DATA_KEYS = {
   ITEM: 'itemId',
   SOCIAL: 'socialId',
   NPC: 'npcId',
+  WAYPOINT: 'waypointNpcId',  // Patrol waypoint handles, ID of their NPC
   PLAYER: 'isPlayer',
   ZONE: 'zoneId',  // Used for Rectangle objects (dialog zone handles)
 } as const;
@@ -38,6 +39,7 @@ export const SELECTED_DATA_KEYS: Record<string, string> = {
   [INTERACTIVE_DATA_KEYS.ITEM]: 'selectedItemId',
   [INTERACTIVE_DATA_KEYS.SOCIAL]: 'selectedSocialId',
   [INTERACTIVE_DATA_KEYS.NPC]: 'selectedItemId',  // NPCs reuse selectedItemId
+  [INTERACTIVE_DATA_KEYS.WAYPOINT]: 'selectedItemId',  // Handles are shown for the selected NPC
   [INTERACTIVE_DATA_KEYS.PLAYER]: 'isPlayerSelected',
   // ZONE uses different selection mechanism (selectedDialogZoneId)
 } as const;
@@ -191,6 +193,9 @@ export class ItemSelectionManager {
       
       if (isDragging()) return;
       
+      // Shift-click keeps selection (adds to group selection or starts marquee)
+      if ((pointer.event as MouseEvent | undefined)?.shiftKey) return;
+      
       // Check if clicking on any interactive object
       // Uses centralized INTERACTIVE_DATA_KEYS to avoid forgetting new object types
       const hitObjects = this.scene.input.hitTestPointer(pointer);
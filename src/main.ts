@@ -3,10 +3,10 @@ import { GameScene } from './scenes/GameScene';
 import { BuilderScene } from './scenes/BuilderScene';
 import { mount } from 'svelte';
 import GameUI from './ui/game/GameUI.svelte';
-import { currentLanguage, currentSkin, currentBackground, isTouchDevice, showControlsDialog } from './stores';
+import { currentLanguage, currentSkin, initCurrentScene, isTouchDevice, lastInputDevice, showControlsDialog } from './stores';
 import { localization } from './data/localization';
 import { skinManager } from './data/skinConfig';
-import { backgroundManager } from './data/background';
+import { loadPreferences } from './data/preferences';
 import { initSceneManager } from './utils/sceneManager';
 import { initUIInputBlocking } from './utils/inputUtils';
 import { SCENE_KEYS } from './constants/sceneKeys';
@@ -21,15 +21,25 @@ if (!gameUIElement) {
   throw new Error('game-ui element not found!');
 }
 
-// Initialize Svelte UI (Svelte 5 syntax)
-mount(GameUI, {
-  target: gameUIElement,
-});
+/**
+ * Load user preferences, then initialize stores and Svelte UI
+ * Game scenes start only after the user confirms background selection in UI
+ */
+async function initUI(target: HTMLElement): Promise<void> {
+  await loadPreferences();
 
-// Initialize stores with saved values from localStorage
-currentLanguage.set(localization.getLanguage());
-currentSkin.set(skinManager.getSkinId());
-currentBackground.set(backgroundManager.getCurrentConfig().name);
+  // Initialize stores with saved preferences
+  currentLanguage.set(localization.getLanguage());
+  currentSkin.set(skinManager.getSkinId());
+  await initCurrentScene();
+
+  // Initialize Svelte UI (Svelte 5 syntax)
+  mount(GameUI, {
+    target,
+  });
+}
+
+initUI(gameUIElement);
 
 const config: Phaser.Types.Core.GameConfig = {
   type: Phaser.AUTO,
@@ -45,6 +55,7 @@ const config: Phaser.Types.Core.GameConfig = {
   },
   input: {
     activePointers: 3, // Enable multi-touch (needed for pinch-to-zoom)
+    gamepad: true, // Gamepad interact button (press-to-talk dialogs)
   },
   physics: {
     default: 'arcade',
@@ -72,6 +83,7 @@ initSceneManager(game);
 // Detect touch device and show controls dialog on first load
 const isTouch = game.device.input.touch;
 isTouchDevice.set(isTouch);
+if (isTouch) lastInputDevice.set('touch');
 
 // Check if this is a page refresh
 const isPageRefresh = performance.getEntriesByType('navigation')[0] 
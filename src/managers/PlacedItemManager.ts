@@ -5,6 +5,23 @@ import { worldToScreen } from '../utils/inputUtils';
 import { ItemRenderer, ItemDragController, ItemSelectionManager } from '../items';
 import { calculateDepthFromY, DEPTH_LAYERS } from '../constants/depthLayers';
 
+/** How far collectible items bob up and down in game (pixels) */
+const COLLECTIBLE_BOB_DISTANCE = 4;
+const COLLECTIBLE_BOB_DURATION = 800;
+
+/** Pickup effect: item rises, grows and fades out */
+const PICKUP_RISE_DISTANCE = 30;
+const PICKUP_SCALE = 1.4;
+const PICKUP_DURATION = 350;
+
+interface ItemEntry {
+  sprite: Phaser.GameObjects.Sprite;
+  data: PlacedItem;
+  physicsBody?: Phaser.GameObjects.Rectangle;
+  /** Overlap area of collectible items (game mode only) */
+  pickupZone?: Phaser.GameObjects.Rectangle;
+}
+
 /**
  * PlacedItemManager - Universal manager for placed items
  * 
@@ -12,15 +29,21 @@ import { calculateDepthFromY, DEPTH_LAYERS } from '../constants/depthLayers';
  * - ItemRenderer for sprite creation
  * - ItemDragController for drag & drop (builder mode)
  * - ItemSelectionManager for selection visuals (builder mode)
+ * 
+ * In game mode collectible items get a pickup zone instead of a physics body,
+ * GameScene collects them on overlap (see collectItem).
  */
 export class PlacedItemManager {
   private scene: Phaser.Scene;
-  private items: Map<string, { sprite: Phaser.GameObjects.Sprite; data: PlacedItem; physicsBody?: Phaser.GameObjects.Rectangle }> = new Map();
+  private items: Map<string, ItemEntry> = new Map();
   private isBuilderMode: boolean = false;
   
   // Physics group for collision detection
   private physicsGroup: Phaser.Physics.Arcade.StaticGroup | null = null;
   
+  // Pickup zones of collectible items for overlap detection
+  private collectibleGroup: Phaser.Physics.Arcade.StaticGroup | null = null;
+  
   // Composed modules
   private renderer: ItemRenderer;
   private dragController?: ItemDragController;
@@ -49,6 +72,7 @@ export class PlacedItemManager {
     // Initialize physics group for item collisions (game mode only)
     if (!builderMode) {
       this.physicsGroup = scene.physics.add.staticGroup();
+      this.collectibleGroup = scene.physics.add.staticGroup();
     }
     
     // Initialize builder-specific modules
@@ -85,10 +109,21 @@ export class PlacedItemManager {
     const sprite = this.renderer.createSprite(itemData);
     
     // Store item reference
-    const itemEntry: { sprite: Phaser.GameObjects.Sprite; data: PlacedItem; physicsBody?: Phaser.GameObjects.Rectangle } = { sprite, data: itemData };
+    const itemEntry: ItemEntry = { sprite, data: itemData };
     
-    // Create physics body if enabled (game mode only)
-    if (!this.isBuilderMode && itemData.physicsEnabled && this.physicsGroup) {
+    // Collectible items are picked up instead of blocking the player (game mode only)
+    if (!this.isBuilderMode && itemData.collectible && this.collectibleGroup) {
+      itemEntry.pickupZone = this.createPickupZone(sprite, itemData);
+      this.scene.tweens.add({
+        targets: sprite,
+        y: sprite.y - COLLECTIBLE_BOB_DISTANCE,
+        duration: COLLECTIBLE_BOB_DURATION,
+        ease: 'Sine.easeInOut',
+        yoyo: true,
+        repeat: -1,
+      });
+    } else if (!this.isBuilderMode && itemData.physicsEnabled && this.physicsGroup) {
+      // Create physics body if enabled (game mode only)
       const physicsBody = this.createPhysicsBody(sprite, itemData);
       itemEntry.physicsBody = physicsBody;
     }
@@ -128,6 +163,44 @@ export class PlacedItemManager {
     return physicsBody;
   }
 
+  /**
+   * Create invisible overlap area of a collectible item (whole sprite bounds)
+   */
+  private createPickupZone(sprite: Phaser.GameObjects.Sprite, itemData: PlacedItem): Phaser.GameObjects.Rectangle {
+    const bounds = sprite.getBounds();
+    const pickupZone = this.scene.add.rectangle(bounds.centerX, bounds.centerY, bounds.width, bounds.height);
+    pickupZone.setVisible(false);
+    this.collectibleGroup!.add(pickupZone);
+    pickupZone.setData('itemId', itemData.id);
+    return pickupZone;
+  }
+
+  /**
+   * Collect an item: play pickup effect and remove it
+   * @returns false if the item isn't a collectible item in the scene (e.g. already collected)
+   */
+  collectItem(id: string): boolean {
+    const item = this.items.get(id);
+    if (!item?.pickupZone) return false;
+    
+    item.pickupZone.destroy();
+    this.items.delete(id);
+    
+    const { sprite } = item;
+    this.scene.tweens.killTweensOf(sprite);
+    this.scene.tweens.add({
+      targets: sprite,
+      y: sprite.y - PICKUP_RISE_DISTANCE,
+      scaleX: sprite.scaleX * PICKUP_SCALE,
+      scaleY: sprite.scaleY * PICKUP_SCALE,
+      alpha: 0,
+      duration: PICKUP_DURATION,
+      ease: 'Quad.easeOut',
+      onComplete: () => sprite.destroy(),
+    });
+    return true;
+  }
+
   /**
    * Update selection visual indicators
    */
@@ -187,6 +260,8 @@ export class PlacedItemManager {
       if (item.physicsBody) {
         item.physicsBody.destroy();
       }
+      item.pickupZone?.destroy();
+      this.scene.tweens.killTweensOf(item.sprite);
       item.sprite.destroy();
       this.items.delete(id);
     }
@@ -207,6 +282,8 @@ export class PlacedItemManager {
       if (item.physicsBody) {
         item.physicsBody.destroy();
       }
+      item.pickupZone?.destroy();
+      this.scene.tweens.killTweensOf(item.sprite);
       item.sprite.destroy();
     });
     this.items.clear();
@@ -234,6 +311,14 @@ export class PlacedItemManager {
     return this.physicsGroup;
   }
   
+  /**
+   * Get pickup zones of collectible items for overlap setup
+   * Only available in game mode (non-builder), zones have 'itemId' data
+   */
+  getCollectibleGroup(): Phaser.Physics.Arcade.StaticGroup | null {
+    return this.collectibleGroup;
+  }
+  
   /**
    * Enable or disable all item interactions
    * Used to disable items when in dialogs edit mode
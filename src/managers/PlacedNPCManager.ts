@@ -2,7 +2,7 @@ import Phaser from 'phaser';
 import type { PlacedNPC } from '../data/mapConfig';
 import { NPC } from '../entities/NPC';
 import { EventBus, EVENTS } from '../events/EventBus';
-import { selectItem, updatePlacedNPC, updateSelectedNPCScreenPosition, selectedItemId } from '../stores/builderStores';
+import { selectItem, updatePlacedNPC, updateSelectedNPCScreenPosition, selectedItemId, isInGroupSelection } from '../stores/builderStores';
 import { openNPCConfigPanel } from '../stores/uiStores';
 import { setupSpriteInteraction, DoubleClickDetector } from '../utils/spriteInteraction';
 import { worldToScreen } from '../utils/inputUtils';
@@ -102,6 +102,7 @@ export class PlacedNPCManager {
         isSelected: () => {
           return get(selectedItemId) === npc.id;
         },
+        isInGroup: () => isInGroupSelection(npc.id),
         onDoubleClick: () => {
           if (this.doubleClickDetector.check(npc.id)) {
             openNPCConfigPanel();
@@ -150,9 +151,18 @@ export class PlacedNPCManager {
       if (data.dialog !== undefined) npc.updateDialog(data.dialog);
       if (data.scale !== undefined) npc.setScale(data.scale);
       if (data.triggerRadius !== undefined) npc.setTriggerRadius(data.triggerRadius);
+      if ('trigger' in data) npc.setDialogTrigger(data.trigger);
     }
   }
 
+  /**
+   * Pass player position and shown dialog to NPC state machines (game mode)
+   * @param dialogNPCId - NPC whose dialog is shown (null if none)
+   */
+  updateBehaviorContext(playerX: number, playerY: number, dialogNPCId: string | null) {
+    this.npcs.forEach(npc => npc.setBehaviorContext(playerX, playerY, npc.id === dialogNPCId));
+  }
+
   getNPC(id: string): NPC | undefined {
     return this.npcs.get(id);
   }
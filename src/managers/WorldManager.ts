@@ -1,7 +1,8 @@
 import Phaser from 'phaser';
-import { loadMapConfig, type MapConfig } from '../data/mapConfig';
-import { getBuilderConfig } from '../stores/builderStores';
-import { backgroundManager } from '../data/background';
+import { MAP_CONFIG_VERSION, type MapConfig } from '../data/mapConfig';
+import { loadSceneConfig } from '../data/repositories';
+import { getBuilderConfig, getBuilderSceneId } from '../stores/builderStores';
+import { backgroundManager, DEFAULT_BACKGROUND_FOLDER, type BackgroundConfig } from '../data/background';
 import { loadBackgroundAssets } from '../utils/BackgroundLoader';
 import { 
   createParallaxBackground, 
@@ -10,16 +11,17 @@ import {
   type ParallaxLayers 
 } from '../utils/ParallaxHelper';
 import { GroundManager, type GroundResult } from './GroundManager';
-import { getPlayerGroundY } from '../constants/playerConstants';
+import { getPlayerGroundY, GROUND_HEIGHT } from '../constants/playerConstants';
 
 /**
  * WorldManager - Centralized world setup and management
  * 
  * Handles map configuration, background/parallax, and ground creation
- * for both GameScene and BuilderScene.
+ * for both GameScene and BuilderScene. Background and ground height come
+ * from the scene config (visitor's background override applies only in game).
  * 
  * @responsibilities
- * - Loading map configuration from JSON or builder store
+ * - Loading map configuration from scene library or builder store
  * - Setting up parallax background layers
  * - Creating ground (physics or visual mode)
  * - Updating parallax scrolling
@@ -28,7 +30,7 @@ import { getPlayerGroundY } from '../constants/playerConstants';
  * @usage
  * ```typescript
  * const worldManager = new WorldManager(scene);
- * const config = await worldManager.loadConfiguration();
+ * const config = await worldManager.loadConfiguration(sceneId);
  * await worldManager.setupBackground();
  * const { ground, groundY } = worldManager.createGround('physics');
  * ```
@@ -36,6 +38,7 @@ import { getPlayerGroundY } from '../constants/playerConstants';
 export class WorldManager {
   private scene: Phaser.Scene;
   private mapConfig!: MapConfig;
+  private backgroundConfig!: BackgroundConfig;
   private parallaxLayers: ParallaxLayers | null = null;
   private loadedBackgrounds: Set<string> = new Set();
   private ground: Phaser.GameObjects.Rectangle | null = null;
@@ -51,40 +54,43 @@ export class WorldManager {
   // =========================================================================
 
   /**
-   * Load map configuration from builder store or JSON file.
+   * Load map configuration of a scene from builder store or scene library.
+   * Both are already validated (builder config when the builder was entered).
    * 
-   * @param useBuilderConfig - If true, tries to load from builder store first
+   * @param sceneId - ID of the scene in the library
+   * @param useBuilderConfig - If true, tries to load from builder store first (when it edits the same scene)
    * @returns The loaded map configuration
    */
-  public async loadConfiguration(useBuilderConfig: boolean = false): Promise<MapConfig> {
+  public async loadConfiguration(sceneId: string, useBuilderConfig: boolean = false): Promise<MapConfig> {
     try {
-      if (useBuilderConfig) {
-        const config = getBuilderConfig();
-        this.mapConfig = config || await loadMapConfig();
-      } else {
-        this.mapConfig = await loadMapConfig();
-      }
+      const builderConfig = useBuilderConfig && getBuilderSceneId() === sceneId ? getBuilderConfig() : null;
+      this.mapConfig = builderConfig || await loadSceneConfig(sceneId);
     } catch (error) {
       console.error('[WorldManager] Failed to load map configuration:', error);
       // Fallback to default config
       const fallbackWorldHeight = 600;
       this.mapConfig = {
+        version: MAP_CONFIG_VERSION,
         worldWidth: 3200,
         worldHeight: fallbackWorldHeight,
         playerStartX: 400,
         playerStartY: getPlayerGroundY(fallbackWorldHeight),
+        background: { folder: DEFAULT_BACKGROUND_FOLDER },
         placedItems: [],
       };
     }
+    this.backgroundConfig = backgroundManager.getSceneConfig(this.mapConfig.background, true);
     return this.mapConfig;
   }
 
   /**
    * Set map configuration directly (for BuilderScene).
    * Use this when config is already available from scene init data.
+   * Config must be validated by the caller (see sceneManager).
    */
   public setConfiguration(config: MapConfig): void {
     this.mapConfig = config;
+    this.backgroundConfig = backgroundManager.getSceneConfig(config.background);
   }
 
   /**
@@ -94,6 +100,13 @@ export class WorldManager {
     return this.mapConfig;
   }
 
+  /**
+   * Get background shown in the scene (with scene overrides applied).
+   */
+  public getBackgroundConfig(): BackgroundConfig {
+    return this.backgroundConfig;
+  }
+
   // =========================================================================
   // BACKGROUND & PARALLAX
   // =========================================================================
@@ -103,7 +116,7 @@ export class WorldManager {
    * Caches loaded backgrounds to avoid duplicate loading.
    */
   public async setupBackground(): Promise<void> {
-    const bgConfig = backgroundManager.getCurrentConfig();
+    const bgConfig = this.backgroundConfig;
     
     // Destroy existing layers if any
     if (this.parallaxLayers) {
@@ -157,8 +170,7 @@ export class WorldManager {
    * @returns Ground object and Y position
    */
   public createGround(mode: 'physics' | 'visual'): GroundResult & { groundHeight: number } {
-    const bgConfig = backgroundManager.getCurrentConfig();
-    this.groundHeight = bgConfig.groundHeight ?? 40;
+    this.groundHeight = this.backgroundConfig.groundHeight ?? GROUND_HEIGHT;
 
     let result: GroundResult;
     
@@ -0,0 +1,125 @@
+import Phaser from 'phaser';
+import {
+  getBuilderConfig,
+  getSelectedClipboardData,
+  addPastedEntities,
+} from '../../stores/builderStores';
+import {
+  serializeClipboardData,
+  parseClipboardData,
+  getClipboardDataCenter,
+  cloneClipboardData,
+  isClipboardDataEmpty,
+  type BuilderClipboardData,
+} from '../../utils/builderClipboard';
+import { isTypingInTextField } from '../../utils/inputUtils';
+import { DUPLICATE_OFFSET } from './builderConstants';
+
+/**
+ * BuilderClipboardController - Copy, paste and duplicate of placed entities
+ *
+ * - Ctrl+C copies selection (group, item, NPC, social or dialog zone) as JSON to system clipboard
+ * - Ctrl+V pastes a copied snippet at the cursor's world position (also from another scene)
+ * - Ctrl+D duplicates selection next to the original
+ *
+ * Uses native copy/paste events, so no clipboard permission is needed.
+ * Pasted entities get fresh IDs and are created by the controllers' config sync.
+ */
+export class BuilderClipboardController {
+  private scene: Phaser.Scene;
+  private groundY: number;
+
+  constructor(scene: Phaser.Scene, groundY: number) {
+    this.scene = scene;
+    this.groundY = groundY;
+  }
+
+  /**
+   * Setup keyboard and clipboard listeners
+   */
+  create(): void {
+    document.addEventListener('copy', this.handleCopy);
+    document.addEventListener('paste', this.handlePaste);
+    window.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  /**
+   * Whether native copy/paste should be left to the browser
+   */
+  private isNativeClipboardTarget(): boolean {
+    if (isTypingInTextField()) return true;
+    // Keep copying of selected text in panels
+    const textSelection = window.getSelection()?.toString() ?? '';
+    return textSelection !== '';
+  }
+
+  private handleCopy = (event: ClipboardEvent): void => {
+    if (this.isNativeClipboardTarget() || !event.clipboardData) return;
+
+    const data = getSelectedClipboardData();
+    if (!data || isClipboardDataEmpty(data)) return;
+
+    event.clipboardData.setData('text/plain', serializeClipboardData(data));
+    event.preventDefault();
+  };
+
+  private handlePaste = (event: ClipboardEvent): void => {
+    if (isTypingInTextField() || !event.clipboardData) return;
+
+    const config = getBuilderConfig();
+    if (!config) return;
+
+    const data = parseClipboardData(event.clipboardData.getData('text/plain'), config);
+    if (!data || isClipboardDataEmpty(data)) return;
+    event.preventDefault();
+
+    // Center pasted entities on the cursor
+    const pointer = this.scene.input.activePointer;
+    const cursor = this.scene.cameras.main.getWorldPoint(pointer.x, pointer.y);
+    const center = getClipboardDataCenter(data, this.groundY);
+    const offsetY = center.y === null ? 0 : cursor.y - center.y;
+
+    this.insert(data, cursor.x - center.x, offsetY);
+  };
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (!(event.ctrlKey || event.metaKey) || event.shiftKey || event.altKey) return;
+    if (event.key.toLowerCase() !== 'd' || isTypingInTextField()) return;
+
+    // Prevent browser bookmark shortcut
+    event.preventDefault();
+    this.duplicateSelection();
+  };
+
+  /**
+   * Duplicate selected entities next to the originals
+   */
+  duplicateSelection(): void {
+    const data = getSelectedClipboardData();
+    if (!data || isClipboardDataEmpty(data)) return;
+
+    this.insert(data, DUPLICATE_OFFSET, 0);
+  }
+
+  /**
+   * Add copies of entities moved by an offset to the config
+   */
+  private insert(data: BuilderClipboardData, offsetX: number, offsetY: number): void {
+    const config = getBuilderConfig();
+    if (!config) return;
+
+    const copy = cloneClipboardData(data, offsetX, offsetY, config);
+    if (isClipboardDataEmpty(copy)) return;
+
+    addPastedEntities(copy);
+  }
+
+  /**
+   * Remove listeners
+   */
+  destroy(): void {
+    document.removeEventListener('copy', this.handleCopy);
+    document.removeEventListener('paste', this.handlePaste);
+    window.removeEventListener('keydown', this.handleKeyDown);
+  }
+}
@@ -13,7 +13,8 @@ import {
   GROUND_AREA_LINE_ALPHA,
   OVERLAY_DEPTH
 } from './builderConstants';
-import { backgroundManager } from '../../data/background';
+import { resolveSceneBackground } from '../../data/background';
+import { getBuilderConfig } from '../../stores/builderStores';
 
 /**
  * BuilderGridOverlay - Manages grid visualization for builder mode
@@ -66,7 +67,7 @@ export class BuilderGridOverlay {
     }
 
     // Highlight ground level
-    const groundHeight = backgroundManager.getCurrentConfig().groundHeight ?? GROUND_HEIGHT;
+    const groundHeight = resolveSceneBackground(getBuilderConfig()?.background).groundHeight ?? GROUND_HEIGHT;
     const groundY = this.worldHeight - groundHeight;
     this.graphics.lineStyle(GROUND_LINE_WIDTH, GROUND_LINE_COLOR, GROUND_LINE_ALPHA);
     this.graphics.beginPath();
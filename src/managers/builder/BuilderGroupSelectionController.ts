@@ -0,0 +1,363 @@
+import Phaser from 'phaser';
+import { get } from 'svelte/store';
+import {
+  builderEditMode,
+  selectedEntities,
+  gridSnappingEnabled,
+  toggleGroupSelection,
+  addToGroupSelection,
+  moveGroupSelection,
+  setDraggingInBuilder,
+  updateGroupSelectionScreenPosition,
+  type BuilderEntityRef,
+  type BuilderEntityType,
+} from '../../stores/builderStores';
+import { INTERACTIVE_DATA_KEYS } from '../../items/ItemSelectionManager';
+import { isPointerOverUI, worldToScreen } from '../../utils/inputUtils';
+import { snapToGrid } from '../../utils/spriteInteraction';
+import { DEPTH_LAYERS } from '../../constants/depthLayers';
+import { SELECTION_COLORS } from '../../constants/colors';
+import {
+  GRID_SIZE,
+  DRAG_TINT,
+  MARQUEE_LINE_WIDTH,
+  MARQUEE_FILL_ALPHA,
+  MARQUEE_MIN_SIZE,
+  GROUP_SELECTION_PADDING,
+} from './builderConstants';
+
+/** Game object of a placed entity (item sprite, NPC sprite, social sprite) */
+type EntityObject = Phaser.GameObjects.GameObject & Phaser.GameObjects.Components.Transform & {
+  getBounds: () => Phaser.Geom.Rectangle;
+  getData: (key: string) => unknown;
+  setTint?: (tint: number) => unknown;
+  clearTint?: () => unknown;
+};
+
+/** Data keys of entity types that can be group-selected */
+const ENTITY_DATA_KEYS: Array<{ key: string; type: BuilderEntityType }> = [
+  { key: INTERACTIVE_DATA_KEYS.ITEM, type: 'item' },
+  { key: INTERACTIVE_DATA_KEYS.NPC, type: 'npc' },
+  { key: INTERACTIVE_DATA_KEYS.SOCIAL, type: 'social' },
+];
+
+/**
+ * BuilderGroupSelectionController - Multi-selection of items, NPCs and socials
+ *
+ * - Shift-click toggles an entity in the group selection
+ * - Shift-drag on empty space draws a marquee and adds touched entities of every type to the group
+ *   (the group is kept when switching between items, NPCs and socials modes)
+ * - Dragging any group member moves the whole group (one store update on release)
+ *
+ * Sprites opt in via the isInGroup callback of setupSpriteInteraction, which makes
+ * them ignore Shift-clicks and clicks while they're in the group.
+ * Group actions (flip, scale, delete) are in ItemControlsOverlay.
+ */
+export class BuilderGroupSelectionController {
+  private scene: Phaser.Scene;
+  private worldWidth: number;
+  private groundY: number;
+  private graphics: Phaser.GameObjects.Graphics | null = null;
+  private unsubscribers: Array<() => void> = [];
+  private members: BuilderEntityRef[] = [];
+
+  /** Active marquee (world coordinates) */
+  private marquee: { startX: number; startY: number; endX: number; endY: number } | null = null;
+
+  /** Active group drag */
+  private dragging: {
+    startX: number;
+    startY: number;
+    deltaX: number;
+    deltaY: number;
+    objects: Array<{ object: EntityObject; originalX: number; originalY: number }>;
+  } | null = null;
+
+  constructor(scene: Phaser.Scene, worldWidth: number, groundY: number) {
+    this.scene = scene;
+    this.worldWidth = worldWidth;
+    this.groundY = groundY;
+  }
+
+  /**
+   * Create graphics and setup input handlers
+   */
+  create(): void {
+    this.graphics = this.scene.add.graphics();
+    this.graphics.setDepth(DEPTH_LAYERS.SELECTION_GRAPHICS);
+
+    const selectionUnsubscribe = selectedEntities.subscribe(entities => {
+      this.members = entities;
+      this.updateSelectionVisuals();
+    });
+    this.unsubscribers.push(selectionUnsubscribe);
+
+    this.scene.input.on('pointerdown', this.handlePointerDown, this);
+    this.scene.input.on('pointermove', this.handlePointerMove, this);
+    this.scene.input.on('pointerup', this.handlePointerUp, this);
+  }
+
+  /**
+   * Find entity reference of a game object (null for other objects)
+   */
+  private getEntityRef(object: Phaser.GameObjects.GameObject): BuilderEntityRef | null {
+    // Physics bodies of items share itemId but are not selectable
+    if (object.type === 'Rectangle' || typeof (object as EntityObject).getData !== 'function') return null;
+
+    for (const { key, type } of ENTITY_DATA_KEYS) {
+      const id = (object as EntityObject).getData(key);
+      if (typeof id === 'string' && id) return { type, id };
+    }
+    return null;
+  }
+
+  /**
+   * Collect all entity objects in the scene by ID
+   */
+  private getEntityObjects(): Map<string, { ref: BuilderEntityRef; object: EntityObject }> {
+    const objects = new Map<string, { ref: BuilderEntityRef; object: EntityObject }>();
+    this.scene.children.list.forEach(child => {
+      const ref = this.getEntityRef(child);
+      if (ref && !objects.has(ref.id)) {
+        objects.set(ref.id, { ref, object: child as EntityObject });
+      }
+    });
+    return objects;
+  }
+
+  private handlePointerDown(pointer: Phaser.Input.Pointer): void {
+    // Group selection is mouse-only (touch uses single selection)
+    if (pointer.wasTouch || !pointer.leftButtonDown()) return;
+    if (isPointerOverUI() || get(builderEditMode) === 'dialogs') return;
+
+    const hitRef = this.scene.input.hitTestPointer(pointer)
+      .map(object => this.getEntityRef(object))
+      .find((ref): ref is BuilderEntityRef => ref !== null);
+
+    const shiftKey = (pointer.event as MouseEvent | undefined)?.shiftKey ?? false;
+
+    if (shiftKey) {
+      if (hitRef) {
+        toggleGroupSelection(hitRef);
+      } else {
+        this.startMarquee(pointer);
+      }
+      return;
+    }
+
+    if (hitRef && this.members.some(member => member.id === hitRef.id)) {
+      this.startDrag(pointer);
+    }
+  }
+
+  private handlePointerMove(pointer: Phaser.Input.Pointer): void {
+    if (this.marquee) {
+      this.marquee.endX = pointer.worldX;
+      this.marquee.endY = pointer.worldY;
+      this.updateSelectionVisuals();
+      return;
+    }
+
+    if (!this.dragging) return;
+
+    if (!pointer.isDown) {
+      // Pointer released outside - end drag
+      this.endDrag();
+      return;
+    }
+
+    let deltaX = pointer.worldX - this.dragging.startX;
+    let deltaY = pointer.worldY - this.dragging.startY;
+
+    if (get(gridSnappingEnabled)) {
+      deltaX = snapToGrid(deltaX, GRID_SIZE);
+      deltaY = snapToGrid(deltaY, GRID_SIZE);
+    }
+
+    // Keep the whole group inside world bounds and above the ground (same as moveGroupSelection)
+    this.dragging.objects.forEach(({ originalX, originalY }) => {
+      deltaX = Phaser.Math.Clamp(deltaX, Math.min(0, -originalX), Math.max(0, this.worldWidth - originalX));
+      deltaY = Phaser.Math.Clamp(deltaY, Math.min(0, -originalY), Math.max(0, this.groundY - originalY));
+    });
+
+    this.dragging.deltaX = deltaX;
+    this.dragging.deltaY = deltaY;
+    this.dragging.objects.forEach(({ object, originalX, originalY }) => {
+      object.setPosition(originalX + deltaX, originalY + deltaY);
+    });
+    this.updateSelectionVisuals();
+  }
+
+  private handlePointerUp(): void {
+    if (this.marquee) {
+      this.endMarquee();
+    }
+    if (this.dragging) {
+      this.endDrag();
+    }
+  }
+
+  /**
+   * Start marquee selection (Shift-drag on empty space)
+   */
+  private startMarquee(pointer: Phaser.Input.Pointer): void {
+    // Prevent camera drag-scroll while drawing marquee
+    this.scene.data.set('isDraggingItem', true);
+    this.marquee = {
+      startX: pointer.worldX,
+      startY: pointer.worldY,
+      endX: pointer.worldX,
+      endY: pointer.worldY,
+    };
+  }
+
+  /**
+   * Add all entities touched by the marquee to the group selection
+   */
+  private endMarquee(): void {
+    if (!this.marquee) return;
+
+    const rect = this.getMarqueeRect();
+    this.marquee = null;
+    this.scene.data.set('isDraggingItem', false);
+
+    if (rect.width >= MARQUEE_MIN_SIZE || rect.height >= MARQUEE_MIN_SIZE) {
+      const touched: BuilderEntityRef[] = [];
+      this.getEntityObjects().forEach(({ ref, object }) => {
+        if (Phaser.Geom.Rectangle.Overlaps(rect, object.getBounds())) {
+          touched.push(ref);
+        }
+      });
+      addToGroupSelection(touched);
+    }
+
+    this.updateSelectionVisuals();
+  }
+
+  private getMarqueeRect(): Phaser.Geom.Rectangle {
+    const { startX, startY, endX, endY } = this.marquee!;
+    return new Phaser.Geom.Rectangle(
+      Math.min(startX, endX),
+      Math.min(startY, endY),
+      Math.abs(endX - startX),
+      Math.abs(endY - startY)
+    );
+  }
+
+  /**
+   * Start dragging all group members
+   */
+  private startDrag(pointer: Phaser.Input.Pointer): void {
+    const entityObjects = this.getEntityObjects();
+    const objects = this.members
+      .map(member => entityObjects.get(member.id)?.object)
+      .filter((object): object is EntityObject => object !== undefined)
+      .map(object => ({ object, originalX: object.x, originalY: object.y }));
+    if (objects.length === 0) return;
+
+    // Set flags to disable camera scrolling and single sprite drags
+    this.scene.data.set('isDraggingItem', true);
+    setDraggingInBuilder(true);
+
+    objects.forEach(({ object }) => object.setTint?.(DRAG_TINT));
+    this.dragging = {
+      startX: pointer.worldX,
+      startY: pointer.worldY,
+      deltaX: 0,
+      deltaY: 0,
+      objects,
+    };
+  }
+
+  /**
+   * Commit group move to the store
+   */
+  private endDrag(): void {
+    if (!this.dragging) return;
+
+    const { deltaX, deltaY, objects } = this.dragging;
+    this.dragging = null;
+    objects.forEach(({ object }) => object.clearTint?.());
+
+    // Commit before clearing drag state, so the move is one undo step
+    moveGroupSelection(deltaX, deltaY);
+    this.scene.data.set('isDraggingItem', false);
+    setDraggingInBuilder(false);
+
+    this.updateSelectionVisuals();
+  }
+
+  /**
+   * Draw selection rectangles of group members and the marquee
+   * Also publishes screen position of the group for controls overlay
+   */
+  updateSelectionVisuals(): void {
+    if (!this.graphics) return;
+
+    this.graphics.clear();
+
+    if (this.marquee) {
+      const rect = this.getMarqueeRect();
+      this.graphics.fillStyle(SELECTION_COLORS.ITEM.hex, MARQUEE_FILL_ALPHA);
+      this.graphics.fillRectShape(rect);
+      this.graphics.lineStyle(MARQUEE_LINE_WIDTH, SELECTION_COLORS.ITEM.hex, 1);
+      this.graphics.strokeRectShape(rect);
+    }
+
+    if (this.members.length === 0) {
+      updateGroupSelectionScreenPosition(null);
+      return;
+    }
+
+    const entityObjects = this.getEntityObjects();
+    let groupBounds: Phaser.Geom.Rectangle | null = null;
+
+    this.members.forEach(member => {
+      const entry = entityObjects.get(member.id);
+      if (!entry) return;
+
+      const bounds = entry.object.getBounds();
+      const color = member.type === 'social' ? SELECTION_COLORS.SOCIAL.hex : SELECTION_COLORS.ITEM.hex;
+      this.graphics!.lineStyle(2, color, 1);
+      this.graphics!.strokeRect(
+        bounds.x - GROUP_SELECTION_PADDING,
+        bounds.y - GROUP_SELECTION_PADDING,
+        bounds.width + GROUP_SELECTION_PADDING * 2,
+        bounds.height + GROUP_SELECTION_PADDING * 2
+      );
+
+      groupBounds = groupBounds ? Phaser.Geom.Rectangle.Union(groupBounds, bounds) : bounds;
+    });
+
+    if (!groupBounds) {
+      updateGroupSelectionScreenPosition(null);
+      return;
+    }
+
+    // Update screen position for UI overlay (center of group bounds)
+    const { centerX, centerY, height } = groupBounds as Phaser.Geom.Rectangle;
+    const camera = this.scene.cameras.main;
+    const { screenX, screenY } = worldToScreen(centerX, centerY, camera);
+    updateGroupSelectionScreenPosition({
+      screenX,
+      screenY,
+      groupHeight: height * camera.zoom,
+    });
+  }
+
+  /**
+   * Cleanup subscriptions, input handlers and graphics
+   */
+  destroy(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+
+    this.scene.input.off('pointerdown', this.handlePointerDown, this);
+    this.scene.input.off('pointermove', this.handlePointerMove, this);
+    this.scene.input.off('pointerup', this.handlePointerUp, this);
+
+    this.graphics?.destroy();
+    this.graphics = null;
+    updateGroupSelectionScreenPosition(null);
+  }
+}
@@ -89,8 +89,13 @@ export class BuilderItemsController {
         }
       });
       
-      // Check for updated items
+      // Check for added items (dropped from palette or restored by undo/redo)
+      // and updated items
       currentItems.forEach(newItemData => {
+        if (!this.itemManager.getItem(newItemData.id)) {
+          this.itemManager.createItem(newItemData);
+          return;
+        }
         const oldItemData = previousItems.find(item => item.id === newItemData.id);
         if (oldItemData && JSON.stringify(oldItemData) !== JSON.stringify(newItemData)) {
           this.itemManager.updateItem(newItemData.id, newItemData);
@@ -125,9 +130,8 @@ export class BuilderItemsController {
         'behind' // Default depth, will be dynamically updated based on player position
       );
       
-      // Add to store and create sprite
+      // Add to store (sprite is created by config sync)
       addPlacedItem(newItem);
-      this.itemManager.createItem(newItem);
       selectItem(newItem.id);
       // Close item palette after adding item
       isItemPaletteOpen.set(false);
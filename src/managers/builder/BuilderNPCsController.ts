@@ -3,9 +3,10 @@ import { PlacedNPCManager } from '../../managers/PlacedNPCManager';
 import { builderConfig, builderEditMode, clearSelection, selectItem } from '../../stores/builderStores';
 import { addPlacedNPC } from '../../stores/builder/npcStores';
 import { isNPCPaletteOpen } from '../../stores/uiStores';
-import type { PlacedNPC } from '../../data/mapConfig';
+import { generateNPCId, type PlacedNPC } from '../../data/mapConfig';
 import { EventBus, EVENTS } from '../../events/EventBus';
 import { getNPCDefinition } from '../../data/npcs/npcRegistry';
+import { NPCPatrolPathRenderer } from './NPCPatrolPathRenderer';
 
 export class BuilderNPCsController {
   private scene: Phaser.Scene;
@@ -13,6 +14,7 @@ export class BuilderNPCsController {
   private worldWidth: number;
   private worldHeight: number;
   public npcManager!: PlacedNPCManager;
+  private patrolPathRenderer!: NPCPatrolPathRenderer;
   private unsubscribers: Array<() => void> = [];
 
   constructor(scene: Phaser.Scene, groundY: number, worldWidth: number, worldHeight: number) {
@@ -42,6 +44,9 @@ export class BuilderNPCsController {
     this.setupStoreSubscriptions();
     this.setupAssetDropListener();
 
+    this.patrolPathRenderer = new NPCPatrolPathRenderer(this.scene, this.npcManager, this.worldWidth, this.worldHeight);
+    this.patrolPathRenderer.create();
+
     return this.npcManager;
   }
 
@@ -75,17 +80,19 @@ export class BuilderNPCsController {
         }
       });
       
-      // Check for updated NPCs (position, flipX, dialog, scale changes)
+      // Check for added NPCs (dropped from palette or restored by undo/redo)
+      // and updated NPCs (position, flipX, dialog, scale changes)
       currentNPCs.forEach(newNPCData => {
+        if (!this.npcManager.getNPC(newNPCData.id)) {
+          this.npcManager.createNPC(newNPCData);
+          return;
+        }
         const oldNPCData = previousNPCs.find(npc => npc.id === newNPCData.id);
         if (oldNPCData && JSON.stringify(oldNPCData) !== JSON.stringify(newNPCData)) {
           this.npcManager.updateNPC(newNPCData.id, newNPCData);
         }
       });
       
-      // Note: New NPCs are created via EVENTS.NPC_DROPPED handler, not here.
-      // This subscription only handles updates and deletions.
-      
       previousNPCs = JSON.parse(JSON.stringify(currentNPCs));
     });
     this.unsubscribers.push(configUnsubscribe);
@@ -107,7 +114,7 @@ export class BuilderNPCsController {
       if (!definition) return;
 
       const newNPC: PlacedNPC = {
-        id: `npc_${Date.now()}`,
+        id: generateNPCId(),
         npcId: assetKey,
         x: Math.round(worldX),
         y: Math.round(worldY),
@@ -115,9 +122,8 @@ export class BuilderNPCsController {
         flipX: false
       };
       
-      // Add to store AND create sprite (like Items do)
+      // Add to store (sprite is created by config sync)
       addPlacedNPC(newNPC);
-      this.npcManager.createNPC(newNPC);
       selectItem(newNPC.id);
       // Close NPC palette after adding NPC
       isNPCPaletteOpen.set(false);
@@ -130,6 +136,7 @@ export class BuilderNPCsController {
   /** Call in scene update loop to keep selection visuals in sync */
   update(): void {
     this.npcManager.update();
+    this.patrolPathRenderer.update();
   }
   
   /** Update NPC depths based on Y position */
@@ -139,6 +146,7 @@ export class BuilderNPCsController {
 
   destroy(): void {
     this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.patrolPathRenderer.destroy();
     this.npcManager.destroy();
   }
   
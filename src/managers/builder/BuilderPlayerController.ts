@@ -1,5 +1,5 @@
 import Phaser from 'phaser';
-import { updatePlayerPosition, builderEditMode, selectPlayer, isPlayerSelected } from '../../stores/builderStores';
+import { updatePlayerPosition, builderEditMode, builderConfig, selectPlayer, isPlayerSelected, isDraggingInBuilder } from '../../stores/builderStores';
 import { setupSpriteInteraction } from '../../utils/spriteInteraction';
 import { get } from 'svelte/store';
 import { skinManager, getSkinScale, AVAILABLE_SKINS } from '../../data/skinConfig';
@@ -13,7 +13,7 @@ import {
   STATIC_SELECTION_RATIOS,
   GROUND_HEIGHT,
 } from '../../constants/playerConstants';
-import { backgroundManager } from '../../data/background';
+import { resolveSceneBackground } from '../../data/background';
 import {
   DRAG_MARGIN_HORIZONTAL,
   DRAG_MARGIN_TOP,
@@ -27,7 +27,7 @@ import {
   SELECTED_HIT_AREA_STROKE_ALPHA,
 } from './builderConstants';
 import { type ModularCharacterSelection } from '../../data/modularConfig';
-import { getSavedCharacterSelection } from '../../data/CharacterStorage';
+import { getSavedCharacterSelection, isModularPlayerSelected } from '../../data/CharacterStorage';
 import {
   preloadModularCharacter,
   MODULAR_SCALE,
@@ -59,9 +59,8 @@ export class BuilderPlayerController {
     this.worldHeight = worldHeight;
     
     // Check if we should use modular player
-    const useModularSetting = localStorage.getItem('useModularPlayer');
     this.modularSelection = getSavedCharacterSelection();
-    this.useModular = useModularSetting === 'true' && this.modularSelection !== null;
+    this.useModular = isModularPlayerSelected();
   }
 
   /**
@@ -76,7 +75,7 @@ export class BuilderPlayerController {
    * Create and setup player sprite
    */
   create(startX: number, startY: number): Phaser.GameObjects.Sprite | Phaser.GameObjects.Container {
-    const groundHeight = backgroundManager.getCurrentConfig().groundHeight ?? GROUND_HEIGHT;
+    const groundHeight = resolveSceneBackground(get(builderConfig)?.background).groundHeight ?? GROUND_HEIGHT;
 
     if (this.useModular && this.modularSelection) {
       // Use modular-specific ground calculation from the start
@@ -109,6 +108,7 @@ export class BuilderPlayerController {
     this.setupInteraction();
     this.setupEditModeSubscription();
     this.setupSelectionSubscription();
+    this.setupConfigSubscription();
 
     return sprite;
   }
@@ -143,6 +143,7 @@ export class BuilderPlayerController {
     this.setupInteraction();
     this.setupEditModeSubscription();
     this.setupSelectionSubscription();
+    this.setupConfigSubscription();
 
     return container;
   }
@@ -212,7 +213,7 @@ export class BuilderPlayerController {
           this.scene.data.set('isDraggingObject', false);
           
           let finalY = this.player.y;
-          const groundHeight = backgroundManager.getCurrentConfig().groundHeight ?? GROUND_HEIGHT;
+          const groundHeight = resolveSceneBackground(get(builderConfig)?.background).groundHeight ?? GROUND_HEIGHT;
           
           // Use type-specific ground check
           if (this.useModular) {
@@ -357,6 +358,29 @@ export class BuilderPlayerController {
     this.unsubscribers.push(unsubscribe);
   }
   
+  /**
+   * Subscribe to player start changes made outside of dragging (undo/redo)
+   */
+  private setupConfigSubscription(): void {
+    let previousX: number | null = null;
+    let previousY: number | null = null;
+    
+    const unsubscribe = builderConfig.subscribe(config => {
+      if (!config) return;
+      
+      const positionChanged = previousX !== null && (config.playerStartX !== previousX || config.playerStartY !== previousY);
+      previousX = config.playerStartX;
+      previousY = config.playerStartY;
+      
+      // While dragging, the sprite is the source of the position
+      if (!positionChanged || get(isDraggingInBuilder)) return;
+      
+      this.player.setPosition(config.playerStartX, config.playerStartY);
+      this.updateDebugVisualization();
+    });
+    this.unsubscribers.push(unsubscribe);
+  }
+  
   /**
    * Set alpha on player
    */
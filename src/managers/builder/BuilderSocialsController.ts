@@ -2,7 +2,7 @@ import Phaser from 'phaser';
 import { get } from 'svelte/store';
 import type { PlacedSocial } from '../../types/SocialTypes';
 import { generateSocialId, DEFAULT_SOCIAL_SCALE } from '../../types/SocialTypes';
-import { selectedSocialId, addPlacedSocial, selectSocial, builderEditMode, placedSocials, updatePlacedSocial, updateSelectedSocialScreenPosition } from '../../stores/builderStores';
+import { selectedSocialId, addPlacedSocial, selectSocial, builderEditMode, placedSocials, updatePlacedSocial, updateSelectedSocialScreenPosition, isInGroupSelection } from '../../stores/builderStores';
 import { openSocialPanel } from '../../stores/uiStores';
 import { EventBus, EVENTS, type SocialDroppedEvent } from '../../events/EventBus';
 import { worldToScreen } from '../../utils/inputUtils';
@@ -149,6 +149,7 @@ export class BuilderSocialsController {
         isSelected: () => {
           return get(selectedSocialId) === socialId;
         },
+        isInGroup: () => isInGroupSelection(socialId),
         onDoubleClick: () => {
           if (this.doubleClickDetector.check(socialId)) {
             openSocialPanel();
@@ -212,18 +213,26 @@ export class BuilderSocialsController {
         }
       });
       
-      // Check for updated socials
+      // Check for added socials (dropped from palette or restored by undo/redo)
+      // and updated socials
       currentSocials.forEach(newSocialData => {
         const oldSocialData = previousSocials.find(s => s.id === newSocialData.id);
         const existingSocial = this.socials.get(newSocialData.id);
         
-        if (existingSocial && oldSocialData) {
+        if (!existingSocial) {
+          this.createSocial(newSocialData);
+        } else if (oldSocialData) {
+          const positionChanged = oldSocialData.x !== newSocialData.x || oldSocialData.y !== newSocialData.y;
           const scaleChanged = oldSocialData.scale !== newSocialData.scale;
           const socialKeyChanged = oldSocialData.socialKey !== newSocialData.socialKey;
           
           existingSocial.data = newSocialData;
           
-          if (scaleChanged || socialKeyChanged) {
+          if (positionChanged) {
+            existingSocial.sprite.setPosition(newSocialData.x, newSocialData.y);
+          }
+          
+          if (positionChanged || scaleChanged || socialKeyChanged) {
             this.updateSocialVisuals(newSocialData.id);
             if (this.scene.data.get('selectedSocialId') === newSocialData.id) {
               this.updateSelectionVisuals();
@@ -259,9 +268,8 @@ export class BuilderSocialsController {
         depth: DEPTH_LAYERS.ITEMS_FRONT,
       };
       
-      // Add to store and create sprite
+      // Add to store (sprite is created by config sync)
       addPlacedSocial(newSocial);
-      this.createSocial(newSocial);
       selectSocial(newSocial.id);
     });
     
@@ -1,11 +1,18 @@
 import Phaser from 'phaser';
 import type { DialogZone } from '../../types/DialogTypes';
 import { createDialogZone } from '../../types/DialogTypes';
-import { builderEditMode, dialogZones, selectedDialogZoneId, selectDialogZone, addDialogZone, updateDialogZone, setDraggingInBuilder, updateSelectedDialogZoneScreenPosition } from '../../stores/builderStores';
+import { builderEditMode, dialogZones, selectedDialogZoneId, selectDialogZone, addDialogZone, updateDialogZone, setDraggingInBuilder, updateSelectedDialogZoneScreenPosition, getBuilderConfig } from '../../stores/builderStores';
 import { openDialogZonePanel } from '../../stores/uiStores';
-import { OVERLAY_DEPTH } from './builderConstants';
+import { OVERLAY_DEPTH, GROUND_HEIGHT } from './builderConstants';
 import { EventBus, EVENTS } from '../../events/EventBus';
 import { isPointerOverUI, worldToScreen, screenToWorld as screenToWorldUtil } from '../../utils/inputUtils';
+import {
+  getZoneRect,
+  hasZoneVerticalBounds,
+  isPointInZone,
+  sortZonesByPriority
+} from '../../utils/dialogZoneLayout';
+import { resolveSceneBackground } from '../../data/background';
 
 /** Depth for dialog zone graphics (below grid, above background) */
 const ZONE_DEPTH = OVERLAY_DEPTH - 1;
@@ -13,6 +20,15 @@ const ZONE_DEPTH = OVERLAY_DEPTH - 1;
 /** Minimum zone width in pixels */
 const MIN_ZONE_WIDTH = 300;
 
+/** Minimum height of zones with vertical bounds (leaves room for top and bottom handles) */
+const MIN_ZONE_HEIGHT = 150;
+
+/** Height of the band drawn above ground for ground-only zones */
+const GROUND_BAND_HEIGHT = 60;
+
+/** Distance of selection buttons below a zone with vertical bounds (screen pixels) */
+const SELECTION_BUTTONS_OFFSET = 40;
+
 /** Default zone width when creating new zones */
 const DEFAULT_ZONE_WIDTH = 150;
 
@@ -34,18 +50,19 @@ const HANDLE_COLOR = 0xffffff;
 /** Handle alpha */
 const HANDLE_ALPHA = 0.6;
 
-/** Minimum gap between zones */
-const MIN_ZONE_GAP = 0;
-
 /** Edge margin for auto-scroll (pixels from screen edge) */
 const AUTO_SCROLL_MARGIN = 60;
 
 /** Auto-scroll speed (pixels per frame) */
 const AUTO_SCROLL_SPEED = 8;
 
+/** Part of the zone being dragged */
+type DragType = 'left' | 'right' | 'top' | 'bottom' | 'move';
+
 /**
  * DialogZoneRenderer - Renders and manages dialog trigger zones in builder mode
  * Shows colored transparent strips for each zone, with drag handles for resizing
+ * (zones with vertical bounds are rectangles with top and bottom handles too)
  */
 export class DialogZoneRenderer {
   private scene: Phaser.Scene;
@@ -70,16 +87,25 @@ export class DialogZoneRenderer {
   /** Right resize handle visuals */
   private rightHandleVisuals: Map<string, Phaser.GameObjects.Rectangle> = new Map();
   
+  /** Top and bottom resize handles of zones with vertical bounds (hit areas) */
+  private verticalHandles: Map<string, Phaser.GameObjects.Rectangle> = new Map();
+  
+  /** Top and bottom resize handle visuals */
+  private verticalHandleVisuals: Map<string, Phaser.GameObjects.Rectangle> = new Map();
+  
   /** Arrow graphics for handles */
   private arrowGraphics: Map<string, Phaser.GameObjects.Graphics> = new Map();
   
   /** Currently dragging state */
   private dragging: { 
     zoneId: string; 
-    type: 'left' | 'right' | 'move'; 
+    type: DragType; 
     startX: number; 
+    startY: number;
     originalX: number; 
     originalWidth: number;
+    originalY: number;
+    originalHeight: number;
   } | null = null;
   
   /** Store unsubscribers */
@@ -216,6 +242,10 @@ export class DialogZoneRenderer {
     this.leftHandleVisuals.clear();
     this.rightHandleVisuals.forEach(v => v.destroy());
     this.rightHandleVisuals.clear();
+    this.verticalHandles.forEach(handle => handle.destroy());
+    this.verticalHandles.clear();
+    this.verticalHandleVisuals.forEach(v => v.destroy());
+    this.verticalHandleVisuals.clear();
     
     // Destroy all arrow graphics
     this.arrowGraphics.forEach(g => g.destroy());
@@ -233,8 +263,8 @@ export class DialogZoneRenderer {
       return;
     }
     
-    // Render each zone
-    for (const zone of this.currentZones) {
+    // Render each zone, zones winning in game on top (clicks go to the topmost)
+    for (const zone of sortZonesByPriority(this.currentZones, this.worldHeight).reverse()) {
       this.renderZone(zone, zone.id === this.currentSelectedId);
     }
   }
@@ -247,21 +277,33 @@ export class DialogZoneRenderer {
     
     const color = Phaser.Display.Color.HexStringToColor(zone.color).color;
     const alpha = isSelected ? SELECTED_ZONE_FILL_ALPHA : ZONE_FILL_ALPHA;
+    const rect = getZoneRect(zone, this.worldHeight);
+    const isBounded = hasZoneVerticalBounds(zone);
     
     // Draw filled rectangle for zone
-    this.graphics.fillStyle(color, alpha);
-    this.graphics.fillRect(zone.x, 0, zone.width, this.worldHeight);
+    // Ground-only zone is faint, with a band above the ground where it triggers
+    if (zone.groundOnly) {
+      const groundY = this.getGroundY();
+      this.graphics.fillStyle(color, alpha / 3);
+      this.graphics.fillRect(rect.x, rect.y, rect.width, rect.height);
+      this.graphics.fillStyle(color, alpha);
+      this.graphics.fillRect(rect.x, groundY - GROUND_BAND_HEIGHT, rect.width, GROUND_BAND_HEIGHT);
+    } else {
+      this.graphics.fillStyle(color, alpha);
+      this.graphics.fillRect(rect.x, rect.y, rect.width, rect.height);
+    }
     
     // Draw border
     this.graphics.lineStyle(2, color, 0.8);
-    this.graphics.strokeRect(zone.x, 0, zone.width, this.worldHeight);
+    this.graphics.strokeRect(rect.x, rect.y, rect.width, rect.height);
     
     // Create interactive zone area for selection and moving
+    // Smaller to not overlap with handles (vertical handles only on bounded zones)
     const zoneArea = this.scene.add.rectangle(
-      zone.x + zone.width / 2,
-      this.worldHeight / 2,
-      zone.width - HANDLE_WIDTH * 2, // Smaller to not overlap with handles
-      this.worldHeight
+      rect.x + rect.width / 2,
+      rect.y + rect.height / 2,
+      rect.width - HANDLE_WIDTH * 2,
+      isBounded ? Math.max(1, rect.height - HANDLE_WIDTH * 2) : rect.height
     );
     zoneArea.setOrigin(0.5, 0.5);
     zoneArea.setInteractive({ cursor: isSelected ? 'grab' : 'pointer' });
@@ -295,7 +337,7 @@ export class DialogZoneRenderer {
         // Set flag to prevent camera drag
         this.scene.data.set('isDraggingItem', true);
         setDraggingInBuilder(true);
-        this.startDrag(zone.id, 'move', pointer.worldX);
+        this.startDrag(zone.id, 'move', pointer.worldX, pointer.worldY);
       } else {
         // Not selected yet - wait to see if this is a click (select) or drag (scroll)
         // Don't block camera scroll yet
@@ -315,126 +357,135 @@ export class DialogZoneRenderer {
     }
   }
 
+  /**
+   * Get ground surface Y of the edited scene
+   */
+  private getGroundY(): number {
+    const groundHeight = resolveSceneBackground(getBuilderConfig()?.background).groundHeight ?? GROUND_HEIGHT;
+    return this.worldHeight - groundHeight;
+  }
+
   /**
    * Create resize handles for a zone with arrow indicators
+   * Left and right handles span the zone height, zones with vertical
+   * bounds also get top and bottom handles
    */
   private createHandles(zone: DialogZone): void {
+    const rect = getZoneRect(zone, this.worldHeight);
+    const arrowOffset = 8;
+    
+    // Arrows at the viewport center, or at the zone center for bounded zones
     const cameraY = this.scene.cameras.main.scrollY;
     const viewportHeight = this.scene.cameras.main.height;
-    const arrowY = cameraY + viewportHeight / 2;
-    
-    // Left handle - visual
-    const leftHandleVisual = this.scene.add.rectangle(
-      zone.x,
-      this.worldHeight / 2,
-      HANDLE_WIDTH,
-      this.worldHeight
-    );
-    leftHandleVisual.setOrigin(0.5, 0.5);
-    leftHandleVisual.setDepth(ZONE_DEPTH + 0.2);
-    leftHandleVisual.setFillStyle(HANDLE_COLOR, HANDLE_ALPHA);
-    
-    // Left handle - hit area (larger for easier grabbing)
-    const leftHandle = this.scene.add.rectangle(
-      zone.x,
-      this.worldHeight / 2,
-      HANDLE_HIT_WIDTH,
-      this.worldHeight
-    );
-    leftHandle.setOrigin(0.5, 0.5);
-    leftHandle.setInteractive({ cursor: 'ew-resize' });
-    leftHandle.setDepth(ZONE_DEPTH + 0.25);
-    leftHandle.setAlpha(0.001); // Nearly invisible but interactive
-    leftHandle.setData('zoneId', zone.id);
-    leftHandle.setData('type', 'left');
-    
-    leftHandle.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
-      if (this.isClickOnUIElement(pointer)) return;
-      this.startDrag(zone.id, 'left', pointer.worldX);
-    });
+    const arrowY = hasZoneVerticalBounds(zone) ? rect.y + rect.height / 2 : cameraY + viewportHeight / 2;
+    
+    const sides: Array<{ type: 'left' | 'right'; x: number; handles: Map<string, Phaser.GameObjects.Rectangle>; visuals: Map<string, Phaser.GameObjects.Rectangle> }> = [
+      { type: 'left', x: rect.x, handles: this.leftHandles, visuals: this.leftHandleVisuals },
+      { type: 'right', x: rect.x + rect.width, handles: this.rightHandles, visuals: this.rightHandleVisuals },
+    ];
+    
+    for (const side of sides) {
+      // Handle - visual
+      const visual = this.scene.add.rectangle(side.x, rect.y + rect.height / 2, HANDLE_WIDTH, rect.height);
+      visual.setOrigin(0.5, 0.5);
+      visual.setDepth(ZONE_DEPTH + 0.2);
+      visual.setFillStyle(HANDLE_COLOR, HANDLE_ALPHA);
+      
+      // Handle - hit area (larger for easier grabbing)
+      const handle = this.scene.add.rectangle(side.x, rect.y + rect.height / 2, HANDLE_HIT_WIDTH, rect.height);
+      handle.setOrigin(0.5, 0.5);
+      handle.setInteractive({ cursor: 'ew-resize' });
+      handle.setDepth(ZONE_DEPTH + 0.25);
+      handle.setAlpha(0.001); // Nearly invisible but interactive
+      handle.setData('zoneId', zone.id);
+      handle.setData('type', side.type);
+      
+      handle.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+        if (this.isClickOnUIElement(pointer)) return;
+        this.startDrag(zone.id, side.type, pointer.worldX, pointer.worldY);
+      });
+      
+      side.handles.set(zone.id, handle);
+      side.visuals.set(zone.id, visual);
+      
+      // Arrow pointing outward from zone edge
+      const arrow = this.scene.add.graphics();
+      arrow.setDepth(ZONE_DEPTH + 0.3);
+      const arrowX = side.type === 'left' ? side.x - arrowOffset : side.x + arrowOffset;
+      this.drawArrow(arrow, arrowX, arrowY, side.type);
+      this.arrowGraphics.set(`${zone.id}_${side.type}`, arrow);
+    }
     
-    this.leftHandles.set(zone.id, leftHandle);
-    this.leftHandleVisuals.set(zone.id, leftHandleVisual);
+    if (!hasZoneVerticalBounds(zone)) return;
     
-    // Left arrow (pointing left) - offset outward from zone edge
-    const arrowOffset = 8;
-    const leftArrow = this.scene.add.graphics();
-    leftArrow.setDepth(ZONE_DEPTH + 0.3);
-    this.drawArrow(leftArrow, zone.x - arrowOffset, arrowY, 'left');
-    this.arrowGraphics.set(`${zone.id}_left`, leftArrow);
-    
-    // Right handle - visual
-    const rightHandleVisual = this.scene.add.rectangle(
-      zone.x + zone.width,
-      this.worldHeight / 2,
-      HANDLE_WIDTH,
-      this.worldHeight
-    );
-    rightHandleVisual.setOrigin(0.5, 0.5);
-    rightHandleVisual.setDepth(ZONE_DEPTH + 0.2);
-    rightHandleVisual.setFillStyle(HANDLE_COLOR, HANDLE_ALPHA);
-    
-    // Right handle - hit area (larger for easier grabbing)
-    const rightHandle = this.scene.add.rectangle(
-      zone.x + zone.width,
-      this.worldHeight / 2,
-      HANDLE_HIT_WIDTH,
-      this.worldHeight
-    );
-    rightHandle.setOrigin(0.5, 0.5);
-    rightHandle.setInteractive({ cursor: 'ew-resize' });
-    rightHandle.setDepth(ZONE_DEPTH + 0.25);
-    rightHandle.setAlpha(0.001); // Nearly invisible but interactive
-    rightHandle.setData('zoneId', zone.id);
-    rightHandle.setData('type', 'right');
-    
-    rightHandle.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
-      if (this.isClickOnUIElement(pointer)) return;
-      this.startDrag(zone.id, 'right', pointer.worldX);
-    });
-    
-    this.rightHandles.set(zone.id, rightHandle);
-    this.rightHandleVisuals.set(zone.id, rightHandleVisual);
+    const edges: Array<{ type: 'top' | 'bottom'; y: number }> = [
+      { type: 'top', y: rect.y },
+      { type: 'bottom', y: rect.y + rect.height },
+    ];
+    const arrowX = rect.x + rect.width / 2;
     
-    // Right arrow (pointing right) - offset outward from zone edge
-    const rightArrow = this.scene.add.graphics();
-    rightArrow.setDepth(ZONE_DEPTH + 0.3);
-    this.drawArrow(rightArrow, zone.x + zone.width + arrowOffset, arrowY, 'right');
-    this.arrowGraphics.set(`${zone.id}_right`, rightArrow);
+    for (const edge of edges) {
+      const visual = this.scene.add.rectangle(arrowX, edge.y, rect.width, HANDLE_WIDTH);
+      visual.setOrigin(0.5, 0.5);
+      visual.setDepth(ZONE_DEPTH + 0.2);
+      visual.setFillStyle(HANDLE_COLOR, HANDLE_ALPHA);
+      
+      const handle = this.scene.add.rectangle(arrowX, edge.y, rect.width - HANDLE_HIT_WIDTH, HANDLE_HIT_WIDTH);
+      handle.setOrigin(0.5, 0.5);
+      handle.setInteractive({ cursor: 'ns-resize' });
+      handle.setDepth(ZONE_DEPTH + 0.25);
+      handle.setAlpha(0.001); // Nearly invisible but interactive
+      handle.setData('zoneId', zone.id);
+      handle.setData('type', edge.type);
+      
+      handle.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+        if (this.isClickOnUIElement(pointer)) return;
+        this.startDrag(zone.id, edge.type, pointer.worldX, pointer.worldY);
+      });
+      
+      this.verticalHandles.set(`${zone.id}_${edge.type}`, handle);
+      this.verticalHandleVisuals.set(`${zone.id}_${edge.type}`, visual);
+      
+      const arrow = this.scene.add.graphics();
+      arrow.setDepth(ZONE_DEPTH + 0.3);
+      const arrowY = edge.type === 'top' ? edge.y - arrowOffset : edge.y + arrowOffset;
+      this.drawArrow(arrow, arrowX, arrowY, edge.type === 'top' ? 'up' : 'down');
+      this.arrowGraphics.set(`${zone.id}_${edge.type}`, arrow);
+    }
   }
   
   /**
-   * Draw a filled triangle pointing left or right (pixel art style)
-   * Left arrow: ◀ (tip points left, base on right)
-   * Right arrow: ▶ (tip points right, base on left)
+   * Draw a filled triangle pointing outward from a zone edge (pixel art style)
+   * Left arrow: ◀, right arrow: ▶, up arrow: ▲, down arrow: ▼
    */
-  private drawArrow(g: Phaser.GameObjects.Graphics, x: number, y: number, direction: 'left' | 'right'): void {
+  private drawArrow(g: Phaser.GameObjects.Graphics, x: number, y: number, direction: 'left' | 'right' | 'up' | 'down'): void {
     const size = 10;
-    const dir = direction === 'left' ? -1 : 1;
-    
-    // Dark outline/shadow (offset by 1px)
-    g.fillStyle(0x333333, 0.8);
-    g.beginPath();
-    g.moveTo(x + dir * size + 1, y);           // Tip
-    g.lineTo(x - dir * size + 1, y - size + 1); // Top of base
-    g.lineTo(x - dir * size + 1, y + size - 1); // Bottom of base
-    g.closePath();
-    g.fillPath();
-    
-    // White filled triangle
-    g.fillStyle(0xffffff, 0.9);
-    g.beginPath();
-    g.moveTo(x + dir * size, y);           // Tip points outward
-    g.lineTo(x - dir * size, y - size);    // Top of base
-    g.lineTo(x - dir * size, y + size);    // Bottom of base
-    g.closePath();
-    g.fillPath();
+    const dir = direction === 'left' || direction === 'up' ? -1 : 1;
+    const isVertical = direction === 'up' || direction === 'down';
+    
+    // Triangle in (along, across) coordinates, mapped to x/y by direction
+    const point = (along: number, across: number, shift: number = 0): [number, number] =>
+      isVertical ? [x + across + shift, y + along] : [x + along + shift, y + across];
+    
+    const fillTriangle = (color: number, alpha: number, shift: number, inset: number) => {
+      g.fillStyle(color, alpha);
+      g.beginPath();
+      g.moveTo(...point(dir * size, 0, shift));                    // Tip points outward
+      g.lineTo(...point(-dir * size, -size + inset, shift));       // One end of base
+      g.lineTo(...point(-dir * size, size - inset, shift));        // Other end of base
+      g.closePath();
+      g.fillPath();
+    };
+    
+    // Dark outline/shadow (offset by 1px), then white filled triangle
+    fillTriangle(0x333333, 0.8, 1, 1);
+    fillTriangle(0xffffff, 0.9, 0, 0);
   }
 
   /**
    * Start dragging a zone edge or the entire zone
    */
-  private startDrag(zoneId: string, type: 'left' | 'right' | 'move', startX: number): void {
+  private startDrag(zoneId: string, type: DragType, startX: number, startY: number): void {
     const zone = this.currentZones.find(z => z.id === zoneId);
     if (!zone) return;
     
@@ -446,60 +497,14 @@ export class DialogZoneRenderer {
       zoneId,
       type,
       startX,
+      startY,
       originalX: zone.x,
       originalWidth: zone.width,
+      originalY: zone.y ?? 0,
+      originalHeight: zone.height ?? this.worldHeight,
     };
   }
 
-  /**
-   * Get bounds for zone movement/resize to prevent overlap
-   */
-  private getZoneBounds(zoneId: string): { minX: number; maxX: number; maxRight: number } {
-    let minX = 0;
-    let maxRight = this.worldWidth;
-    
-    // Find adjacent zones
-    for (const other of this.currentZones) {
-      if (other.id === zoneId) continue;
-      
-      const otherRight = other.x + other.width;
-      const zone = this.currentZones.find(z => z.id === zoneId);
-      if (!zone) continue;
-      
-      // Zone is to the left of current zone
-      if (otherRight <= zone.x + zone.width / 2) {
-        minX = Math.max(minX, otherRight + MIN_ZONE_GAP);
-      }
-      // Zone is to the right of current zone
-      if (other.x >= zone.x + zone.width / 2) {
-        maxRight = Math.min(maxRight, other.x - MIN_ZONE_GAP);
-      }
-    }
-    
-    return { minX, maxX: maxRight - MIN_ZONE_WIDTH, maxRight };
-  }
-
-  /**
-   * Check if new zone position would overlap with existing zones
-   */
-  private wouldOverlap(zoneId: string, newX: number, newWidth: number): boolean {
-    const newRight = newX + newWidth;
-    
-    for (const other of this.currentZones) {
-      if (other.id === zoneId) continue;
-      
-      const otherLeft = other.x;
-      const otherRight = other.x + other.width;
-      
-      // Check overlap
-      if (newX < otherRight && newRight > otherLeft) {
-        return true;
-      }
-    }
-    
-    return false;
-  }
-
   /**
    * Check if a pointer event started on a UI element (not canvas)
    */
@@ -572,7 +577,7 @@ export class DialogZoneRenderer {
     // Store screen X for auto-scroll (relative to canvas)
     this.currentScreenX = event.clientX - rect.left;
     
-    this.updateDrag(coords.worldX);
+    this.updateDrag(coords.worldX, coords.worldY);
     
     // Check for auto-scroll
     this.checkAutoScroll();
@@ -592,7 +597,7 @@ export class DialogZoneRenderer {
     // Stop camera from moving while dragging
     pointer.event?.stopPropagation?.();
     
-    this.updateDrag(pointer.worldX);
+    this.updateDrag(pointer.worldX, pointer.worldY);
     
     // Check for auto-scroll
     this.checkAutoScroll();
@@ -746,13 +751,11 @@ export class DialogZoneRenderer {
     camera.scrollX = finalCameraScrollX;
     
     // Move zone with camera (zone stays at same screen position)
-    if (!this.wouldOverlap(zone.id, clampedZoneX, zone.width)) {
-      updateDialogZone(zone.id, { x: clampedZoneX });
-      
-      // Update drag reference to keep sync - use actual zone delta, not camera delta
-      this.dragging.originalX += actualZoneDelta;
-      this.dragging.startX += actualZoneDelta;
-    }
+    updateDialogZone(zone.id, { x: clampedZoneX });
+    
+    // Update drag reference to keep sync - use actual zone delta, not camera delta
+    this.dragging.originalX += actualZoneDelta;
+    this.dragging.startX += actualZoneDelta;
   }
 
   /**
@@ -766,16 +769,17 @@ export class DialogZoneRenderer {
   }
 
   /**
-   * Update drag position with world X coordinate
+   * Update drag position with world coordinates
    */
-  private updateDrag(worldX: number): void {
+  private updateDrag(worldX: number, worldY: number): void {
     if (!this.dragging) return;
     
     const deltaX = worldX - this.dragging.startX;
+    const deltaY = worldY - this.dragging.startY;
     const zone = this.currentZones.find(z => z.id === this.dragging?.zoneId);
     if (!zone) return;
     
-    const bounds = this.getZoneBounds(zone.id);
+    const rect = getZoneRect(zone, this.worldHeight);
     
     if (this.dragging.type === 'left') {
       // Moving left edge (resize from left)
@@ -794,15 +798,8 @@ export class DialogZoneRenderer {
         newWidth = MIN_ZONE_WIDTH;
       }
       
-      // Clamp to not overlap with zones on the left
-      if (newX < bounds.minX) {
-        const diff = bounds.minX - newX;
-        newX = bounds.minX;
-        newWidth -= diff;
-      }
-      
       // Ensure still valid after all clamping
-      if (newWidth >= MIN_ZONE_WIDTH && !this.wouldOverlap(zone.id, newX, newWidth)) {
+      if (newWidth >= MIN_ZONE_WIDTH) {
         updateDialogZone(zone.id, { x: newX, width: newWidth });
       }
       
@@ -820,111 +817,54 @@ export class DialogZoneRenderer {
         newWidth = this.worldWidth - zone.x;
       }
       
-      // Clamp to not overlap with zones on the right
-      if (zone.x + newWidth > bounds.maxRight) {
-        newWidth = bounds.maxRight - zone.x;
-      }
-      
       // Ensure still valid
-      if (newWidth >= MIN_ZONE_WIDTH && !this.wouldOverlap(zone.id, zone.x, newWidth)) {
+      if (newWidth >= MIN_ZONE_WIDTH) {
         updateDialogZone(zone.id, { width: newWidth });
       }
       
-    } else if (this.dragging.type === 'move') {
-      // Moving the entire zone
-      let newX = this.dragging.originalX + deltaX;
-      const width = zone.width;
+    } else if (this.dragging.type === 'top') {
+      // Moving top edge (resize from top)
+      let newY = this.dragging.originalY + deltaY;
+      let newHeight = this.dragging.originalHeight - deltaY;
       
       // Clamp to world bounds
-      if (newX < 0) {
-        newX = 0;
-      }
-      if (newX + width > this.worldWidth) {
-        newX = this.worldWidth - width;
+      if (newY < 0) {
+        newHeight += newY;
+        newY = 0;
       }
       
-      // Check for overlaps and clamp
-      if (!this.wouldOverlap(zone.id, newX, width)) {
-        updateDialogZone(zone.id, { x: newX });
-      } else {
-        // Try to find nearest non-overlapping position
-        const clampedX = this.findNonOverlappingPosition(zone.id, newX, width);
-        if (clampedX !== null) {
-          updateDialogZone(zone.id, { x: clampedX });
-        }
+      // Ensure minimum height
+      if (newHeight < MIN_ZONE_HEIGHT) {
+        newY = this.dragging.originalY + this.dragging.originalHeight - MIN_ZONE_HEIGHT;
+        newHeight = MIN_ZONE_HEIGHT;
       }
-    }
-  }
-
-  /**
-   * Find nearest non-overlapping position for a zone
-   */
-  private findNonOverlappingPosition(zoneId: string, targetX: number, width: number): number | null {
-    // Sort other zones by x position
-    const otherZones = this.currentZones
-      .filter(z => z.id !== zoneId)
-      .sort((a, b) => a.x - b.x);
-    
-    if (otherZones.length === 0) {
-      return Math.max(0, Math.min(targetX, this.worldWidth - width));
-    }
-    
-    // Find gaps and check if target fits
-    let bestX = targetX;
-    let bestDistance = Infinity;
-    
-    // Check gap at start (0 to first zone)
-    const firstZone = otherZones[0];
-    if (firstZone.x >= width) {
-      const maxX = firstZone.x - width;
-      const clampedX = Math.max(0, Math.min(targetX, maxX));
-      const dist = Math.abs(clampedX - targetX);
-      if (dist < bestDistance) {
-        bestDistance = dist;
-        bestX = clampedX;
+      
+      updateDialogZone(zone.id, { y: newY, height: newHeight });
+      
+    } else if (this.dragging.type === 'bottom') {
+      // Moving bottom edge (resize from bottom)
+      let newHeight = Math.max(MIN_ZONE_HEIGHT, this.dragging.originalHeight + deltaY);
+      
+      // Clamp to world bounds
+      if (rect.y + newHeight > this.worldHeight) {
+        newHeight = this.worldHeight - rect.y;
       }
-    }
-    
-    // Check gaps between zones
-    for (let i = 0; i < otherZones.length - 1; i++) {
-      const current = otherZones[i];
-      const next = otherZones[i + 1];
-      const gapStart = current.x + current.width;
-      const gapEnd = next.x;
-      const gapWidth = gapEnd - gapStart;
       
-      if (gapWidth >= width) {
-        const minX = gapStart;
-        const maxX = gapEnd - width;
-        const clampedX = Math.max(minX, Math.min(targetX, maxX));
-        const dist = Math.abs(clampedX - targetX);
-        if (dist < bestDistance) {
-          bestDistance = dist;
-          bestX = clampedX;
-        }
+      if (newHeight >= MIN_ZONE_HEIGHT) {
+        updateDialogZone(zone.id, { height: newHeight });
       }
-    }
-    
-    // Check gap at end (last zone to world width)
-    const lastZone = otherZones[otherZones.length - 1];
-    const endGapStart = lastZone.x + lastZone.width;
-    if (this.worldWidth - endGapStart >= width) {
-      const minX = endGapStart;
-      const maxX = this.worldWidth - width;
-      const clampedX = Math.max(minX, Math.min(targetX, maxX));
-      const dist = Math.abs(clampedX - targetX);
-      if (dist < bestDistance) {
-        bestDistance = dist;
-        bestX = clampedX;
+      
+    } else if (this.dragging.type === 'move') {
+      // Moving the entire zone (zones with vertical bounds move vertically too)
+      const newX = Math.max(0, Math.min(this.worldWidth - zone.width, this.dragging.originalX + deltaX));
+      
+      if (hasZoneVerticalBounds(zone)) {
+        const newY = Math.max(0, Math.min(this.worldHeight - rect.height, this.dragging.originalY + deltaY));
+        updateDialogZone(zone.id, { x: newX, y: newY });
+      } else {
+        updateDialogZone(zone.id, { x: newX });
       }
     }
-    
-    // Only return if we found a valid position
-    if (bestDistance < Infinity && !this.wouldOverlap(zoneId, bestX, width)) {
-      return bestX;
-    }
-    
-    return null;
   }
 
   /**
@@ -1014,7 +954,7 @@ export class DialogZoneRenderer {
     const worldX = pointer.worldX;
     
     for (const zone of this.currentZones) {
-      if (worldX >= zone.x && worldX <= zone.x + zone.width) {
+      if (isPointInZone(zone, worldX, pointer.worldY, this.worldHeight)) {
         // Clicked inside existing zone, the zone's own handler will take care of it
         return;
       }
@@ -1096,17 +1036,6 @@ export class DialogZoneRenderer {
     // Clamp x to world bounds
     newX = Math.max(0, Math.min(this.worldWidth - newWidth, newX));
     
-    // Check for overlap
-    if (this.wouldOverlap('', newX, newWidth)) {
-      // Try to find a non-overlapping position nearby
-      const validX = this.findNonOverlappingPosition('', newX, newWidth);
-      if (validX === null) {
-        console.warn('No room for a new dialog zone');
-        return;
-      }
-      newX = validX;
-    }
-    
     // Create new zone
     const newZone = createDialogZone(newX, newWidth);
     newZone.x = newX;
@@ -1139,12 +1068,17 @@ export class DialogZoneRenderer {
     }
     
     // Calculate screen position (center of zone, below arrows)
-    // Use worldToScreen for correct FIT mode support (only for X, Y is fixed)
+    // Use worldToScreen for correct FIT mode support
     const camera = this.scene.cameras.main;
     const zoneCenterX = zone.x + zone.width / 2;
     const { screenX } = worldToScreen(zoneCenterX, 0, camera);
-    // Position Y below the center (arrows are at 50%, buttons at 65%)
-    const screenY = camera.height * 0.65;
+    // Full height zone: Y below the center (arrows are at 50%, buttons at 65%)
+    // Zone with vertical bounds: below its bottom edge, kept on screen
+    let screenY = camera.height * 0.65;
+    if (hasZoneVerticalBounds(zone)) {
+      const bottom = worldToScreen(zoneCenterX, zone.y + zone.height, camera).screenY + SELECTION_BUTTONS_OFFSET;
+      screenY = Math.max(SELECTION_BUTTONS_OFFSET, Math.min(camera.height - SELECTION_BUTTONS_OFFSET, bottom));
+    }
     
     updateSelectedDialogZoneScreenPosition({ screenX, screenY });
   }
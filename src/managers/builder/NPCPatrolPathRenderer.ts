@@ -0,0 +1,222 @@
+import Phaser from 'phaser';
+import type { PlacedNPC } from '../../data/mapConfig';
+import type { PlacedNPCManager } from '../PlacedNPCManager';
+import { builderConfig, selectedItemId, updatePlacedNPC } from '../../stores/builderStores';
+import { DEPTH_LAYERS } from '../../constants/depthLayers';
+import { INTERACTIVE_DATA_KEYS } from '../../items/ItemSelectionManager';
+import { setupSpriteInteraction } from '../../utils/spriteInteraction';
+import { DEFAULT_PATROL_MODE, type NPCWaypoint } from '../../types/NPCBehaviorTypes';
+
+/** Color of patrol paths and waypoint handles (matches NPC selection) */
+const PATH_COLOR = 0xe67e22;
+
+/** Alpha of paths of NPCs that aren't selected */
+const PATH_ALPHA = 0.35;
+
+/** Alpha of the path of the selected NPC */
+const SELECTED_PATH_ALPHA = 0.9;
+
+const PATH_LINE_WIDTH = 2;
+
+/** Radius of waypoint handles */
+const HANDLE_RADIUS = 14;
+
+/** Radius of point markers on paths of NPCs that aren't selected */
+const POINT_RADIUS = 4;
+
+/** Depth of paths and handles (above game objects, below grid) */
+const PATH_DEPTH = DEPTH_LAYERS.SELECTION_GRAPHICS;
+
+interface WaypointHandle {
+  container: Phaser.GameObjects.Container;
+  cleanup: () => void;
+}
+
+/**
+ * NPCPatrolPathRenderer - Shows patrol paths of NPCs in builder mode
+ * Paths are drawn for all patrolling NPCs, the selected NPC gets numbered
+ * handles for dragging its waypoints (waypoints are stored relative to the NPC,
+ * so moving the NPC moves its whole path)
+ */
+export class NPCPatrolPathRenderer {
+  private scene: Phaser.Scene;
+  private npcManager: PlacedNPCManager;
+  private worldWidth: number;
+  private worldHeight: number;
+  private graphics: Phaser.GameObjects.Graphics | null = null;
+  private handles: WaypointHandle[] = [];
+  private unsubscribers: Array<() => void> = [];
+
+  private placedNPCs: PlacedNPC[] = [];
+  private selectedId: string | null = null;
+  /** NPC ID and waypoint count the handles were built for */
+  private handlesKey = '';
+  /** Index of the waypoint being dragged */
+  private draggingIndex: number | null = null;
+
+  constructor(scene: Phaser.Scene, npcManager: PlacedNPCManager, worldWidth: number, worldHeight: number) {
+    this.scene = scene;
+    this.npcManager = npcManager;
+    this.worldWidth = worldWidth;
+    this.worldHeight = worldHeight;
+  }
+
+  create(): void {
+    this.graphics = this.scene.add.graphics();
+    this.graphics.setDepth(PATH_DEPTH);
+
+    const configUnsubscribe = builderConfig.subscribe(config => {
+      this.placedNPCs = config?.placedNPCs ?? [];
+      this.syncHandles();
+    });
+    this.unsubscribers.push(configUnsubscribe);
+
+    const selectionUnsubscribe = selectedItemId.subscribe(id => {
+      this.selectedId = id;
+      this.syncHandles();
+    });
+    this.unsubscribers.push(selectionUnsubscribe);
+  }
+
+  /** Call in scene update loop, paths follow NPC sprites while they're dragged */
+  update(): void {
+    if (!this.graphics) return;
+    this.graphics.clear();
+
+    this.placedNPCs.forEach(placedNPC => {
+      const waypoints = placedNPC.behavior?.patrol?.waypoints;
+      const npc = this.npcManager.getNPC(placedNPC.id);
+      if (!waypoints?.length || !npc) return;
+
+      const isSelected = placedNPC.id === this.selectedId;
+      const points = [
+        { x: npc.x, y: npc.y },
+        ...waypoints.map((waypoint, index) => {
+          // Dragged handle is ahead of the stored waypoint
+          const handle = isSelected && index === this.draggingIndex ? this.handles[index]?.container : undefined;
+          return handle
+            ? { x: handle.x, y: handle.y }
+            : { x: npc.x + waypoint.offsetX, y: npc.y + waypoint.offsetY };
+        }),
+      ];
+
+      const mode = placedNPC.behavior?.patrol?.mode ?? DEFAULT_PATROL_MODE;
+      this.drawPath(points, mode === 'loop', isSelected);
+
+      if (isSelected) {
+        this.handles.forEach((handle, index) => {
+          if (index !== this.draggingIndex) handle.container.setPosition(points[index + 1].x, points[index + 1].y);
+        });
+      }
+    });
+  }
+
+  private drawPath(points: Array<{ x: number; y: number }>, isLoop: boolean, isSelected: boolean): void {
+    if (!this.graphics) return;
+    const alpha = isSelected ? SELECTED_PATH_ALPHA : PATH_ALPHA;
+
+    this.graphics.lineStyle(PATH_LINE_WIDTH, PATH_COLOR, alpha);
+    this.graphics.beginPath();
+    this.graphics.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(point => this.graphics!.lineTo(point.x, point.y));
+    if (isLoop) this.graphics.closePath();
+    this.graphics.strokePath();
+
+    // Selected NPC has handles instead of markers
+    if (!isSelected) {
+      this.graphics.fillStyle(PATH_COLOR, alpha);
+      points.slice(1).forEach(point => this.graphics!.fillCircle(point.x, point.y, POINT_RADIUS));
+    }
+  }
+
+  /**
+   * Rebuild waypoint handles when the selected NPC or its waypoint count changes
+   * (moved waypoints only reposition the handles in update)
+   */
+  private syncHandles(): void {
+    if (this.draggingIndex !== null) return;
+
+    const placedNPC = this.placedNPCs.find(npc => npc.id === this.selectedId);
+    const waypoints = placedNPC?.behavior?.patrol?.waypoints ?? [];
+    const key = placedNPC && waypoints.length > 0 ? `${placedNPC.id}:${waypoints.length}` : '';
+    if (key === this.handlesKey) return;
+
+    this.destroyHandles();
+    this.handlesKey = key;
+    if (!placedNPC) return;
+
+    waypoints.forEach((waypoint, index) => {
+      this.handles.push(this.createHandle(placedNPC, waypoint, index));
+    });
+  }
+
+  private createHandle(placedNPC: PlacedNPC, waypoint: NPCWaypoint, index: number): WaypointHandle {
+    const circle = this.scene.add.circle(0, 0, HANDLE_RADIUS, PATH_COLOR, 0.8);
+    circle.setStrokeStyle(2, 0xffffff, 1);
+    const label = this.scene.add.text(0, 0, String(index + 1), {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '10px',
+      color: '#ffffff',
+    }).setOrigin(0.5);
+
+    const container = this.scene.add.container(placedNPC.x + waypoint.offsetX, placedNPC.y + waypoint.offsetY, [circle, label]);
+    container.setSize(HANDLE_RADIUS * 2, HANDLE_RADIUS * 2);
+    container.setDepth(PATH_DEPTH);
+    // Clicks on handles keep the NPC selected (see INTERACTIVE_DATA_KEYS)
+    container.setData(INTERACTIVE_DATA_KEYS.WAYPOINT, placedNPC.id);
+
+    const cleanup = setupSpriteInteraction({
+      sprite: container,
+      scene: this.scene,
+      cursor: 'grab',
+      constraints: {
+        minX: 0,
+        maxX: this.worldWidth,
+        minY: 0,
+        maxY: this.worldHeight,
+      },
+      callbacks: {
+        // Handles exist only for the selected NPC, so they drag on first click
+        isSelected: () => true,
+        onDragStart: () => {
+          this.draggingIndex = index;
+        },
+        onDragEnd: (x, y) => {
+          this.draggingIndex = null;
+          this.moveWaypoint(placedNPC.id, index, x, y);
+        },
+      },
+    });
+
+    return { container, cleanup };
+  }
+
+  private moveWaypoint(npcId: string, index: number, x: number, y: number): void {
+    const placedNPC = this.placedNPCs.find(npc => npc.id === npcId);
+    const patrol = placedNPC?.behavior?.patrol;
+    if (!placedNPC || !patrol?.waypoints[index]) return;
+
+    const waypoints = patrol.waypoints.map((waypoint, i) => i === index
+      ? { ...waypoint, offsetX: Math.round(x - placedNPC.x), offsetY: Math.round(y - placedNPC.y) }
+      : waypoint
+    );
+    updatePlacedNPC(npcId, { behavior: { ...placedNPC.behavior, patrol: { ...patrol, waypoints } } });
+  }
+
+  private destroyHandles(): void {
+    this.handles.forEach(handle => {
+      handle.cleanup();
+      handle.container.destroy();
+    });
+    this.handles = [];
+    this.handlesKey = '';
+  }
+
+  destroy(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.destroyHandles();
+    this.graphics?.destroy();
+    this.graphics = null;
+  }
+}
@@ -61,3 +61,12 @@ export const DEBUG_HIT_AREA_STROKE_ALPHA = 0.3;
 export const SELECTED_HIT_AREA_ALPHA = 0.2;
 export const SELECTED_HIT_AREA_STROKE_WIDTH = 2;
 export const SELECTED_HIT_AREA_STROKE_ALPHA = 0.8;
+
+// Group selection
+export const MARQUEE_LINE_WIDTH = 2;
+export const MARQUEE_FILL_ALPHA = 0.15;
+export const MARQUEE_MIN_SIZE = 5;  // Smaller marquee is treated as a Shift-click on background
+export const GROUP_SELECTION_PADDING = 4;
+
+// Clipboard
+export const DUPLICATE_OFFSET = 50;  // Horizontal offset of duplicated entities (Ctrl+D)
@@ -0,0 +1,170 @@
+import {
+  DEFAULT_DIALOG_TRIGGER,
+  DEFAULT_TRIGGER_COOLDOWN_SECONDS,
+  type DialogTrigger,
+} from '../../types/DialogTypes';
+import { DEFAULT_SCENE_ID } from '../../data/mapConfig';
+
+/**
+ * State of a zone or NPC dialog for the player in range
+ * - hidden: nothing is shown (not in range, already shown once, cooling down)
+ * - prompt: interact prompt is shown, dialog waits for the interact key
+ * - shown: dialog is shown
+ */
+export type DialogTriggerState = 'hidden' | 'prompt' | 'shown';
+
+/** Result of a tracker update */
+export interface DialogTriggerUpdate {
+  /** State of each target in range */
+  states: Map<string, DialogTriggerState>;
+  /** Interact press opened a dialog (other trackers shouldn't use it) */
+  interactUsed: boolean;
+}
+
+/** Zone or NPC the player is in range of */
+export interface DialogTriggerTarget {
+  id: string;
+  trigger?: DialogTrigger;
+}
+
+/** Dialogs shown and closed in one scene */
+interface SceneDialogSession {
+  shown: Set<string>;
+  /** Time of the last close by dialog ID */
+  closedAt: Map<string, number>;
+}
+
+// Per scene, shared by all trackers and scene restarts, so "once" and cooldown last for the session
+const sessions = new Map<string, SceneDialogSession>();
+
+function getSession(sceneId: string): SceneDialogSession {
+  let session = sessions.get(sceneId);
+  if (!session) {
+    session = { shown: new Set(), closedAt: new Map() };
+    sessions.set(sceneId, session);
+  }
+  return session;
+}
+
+/**
+ * Forget dialogs shown in a scene ("once" dialogs show again, cooldowns end)
+ * Used when builder test play starts
+ */
+export function resetDialogTriggerSession(sceneId: string): void {
+  sessions.delete(sceneId);
+}
+
+/**
+ * DialogTriggerTracker - Decides when dialogs of zones and NPCs are shown
+ *
+ * GameScene passes the targets the player is in range of every frame, the
+ * tracker remembers which of them were entered, opened and closed.
+ * Only one target wins: the first one (in the order passed) that is open,
+ * waits for interact or can open. Other targets are not opened, so "once"
+ * and cooldown are recorded only for dialogs that were really shown.
+ *
+ * @responsibilities
+ * - Detecting enter and exit of targets
+ * - Applying trigger mode (enter, interact, once, cooldown), default of the scene for targets without one
+ * - Remembering shown dialogs for the session (per scene)
+ */
+export class DialogTriggerTracker {
+  /** Targets the player was in range of in the last update */
+  private inRange = new Set<string>();
+
+  /** Targets with dialog open */
+  private open = new Set<string>();
+
+  /** Trigger of targets without one (scene dialog interaction) */
+  private defaultTrigger: DialogTrigger = DEFAULT_DIALOG_TRIGGER;
+
+  /** Shown dialogs of the current scene */
+  private session: SceneDialogSession = getSession(DEFAULT_SCENE_ID);
+
+  /**
+   * Set scene the targets belong to (IDs are unique only within a scene)
+   */
+  public setScene(sceneId: string): void {
+    this.session = getSession(sceneId);
+  }
+
+  /**
+   * Set trigger of targets without one
+   */
+  public setDefaultTrigger(trigger: DialogTrigger): void {
+    this.defaultTrigger = trigger;
+  }
+
+  /**
+   * Update targets the player is in range of
+   * @param targets - Targets in range, the winning one first (e.g. by zone priority)
+   * @param interactPressed - Interact key was pressed since the last update
+   */
+  public update(targets: DialogTriggerTarget[], interactPressed: boolean): DialogTriggerUpdate {
+    const now = Date.now();
+    const states = new Map<string, DialogTriggerState>();
+    let interactUsed = false;
+    const ids = new Set(targets.map(target => target.id));
+
+    // Exit closes dialog
+    for (const id of this.inRange) {
+      if (!ids.has(id)) this.close(id, now);
+    }
+
+    targets.forEach(({ id }) => {
+      this.inRange.add(id);
+      states.set(id, 'hidden');
+    });
+
+    const winner = targets.find(({ id, trigger = this.defaultTrigger }) =>
+      this.open.has(id) || trigger.mode === 'interact' || this.canOpen(id, trigger, now)
+    );
+    if (winner && !this.open.has(winner.id)) {
+      const isInteract = (winner.trigger ?? this.defaultTrigger).mode === 'interact';
+      if (!isInteract || interactPressed) {
+        this.openDialog(winner.id);
+        interactUsed = isInteract;
+      }
+    }
+    if (winner) states.set(winner.id, this.open.has(winner.id) ? 'shown' : 'prompt');
+
+    return { states, interactUsed };
+  }
+
+  /**
+   * Forget targets in range (scene shutdown), open dialogs count as closed
+   */
+  public reset(): void {
+    const now = Date.now();
+    this.inRange.forEach(id => this.close(id, now));
+  }
+
+  /** Whether dialog opens by itself while in range (not interact, not shown once, not cooling down) */
+  private canOpen(id: string, trigger: DialogTrigger, now: number): boolean {
+    switch (trigger.mode) {
+      case 'interact':
+        return false;
+      case 'once':
+        return !this.session.shown.has(id);
+      case 'cooldown': {
+        const cooldownMs = (trigger.cooldownSeconds ?? DEFAULT_TRIGGER_COOLDOWN_SECONDS) * 1000;
+        return now - (this.session.closedAt.get(id) ?? -Infinity) >= cooldownMs;
+      }
+      default:
+        // enter (unknown modes from older or broken configs too)
+        return true;
+    }
+  }
+
+  private openDialog(id: string): void {
+    this.open.add(id);
+    this.session.shown.add(id);
+  }
+
+  private close(id: string, now: number): void {
+    this.inRange.delete(id);
+    if (this.open.delete(id)) {
+      this.session.closedAt.set(id, now);
+    }
+  }
+}
@@ -1,7 +1,7 @@
 import Phaser from 'phaser';
 import { Player } from '../../entities/Player';
 import { ModularPlayer } from '../../entities/ModularPlayer';
-import { getSavedCharacterSelection } from '../../data/CharacterStorage';
+import { getSavedCharacterSelection, isModularPlayerSelected } from '../../data/CharacterStorage';
 import { preloadSkins, createAllSkinAnimations } from '../../utils/skinLoader';
 import { getModularPlayerGroundY, getPlayerGroundY } from '../../constants/playerConstants';
 import { GroundManager } from '../GroundManager';
@@ -20,17 +20,14 @@ export class GamePlayerManager {
   }
 
   /**
-   * Initialize player settings from local storage
+   * Initialize player settings from user preferences
    */
   public init(): void {
-    // Check if user selected custom character in BackgroundSelect
-    const useModularSetting = localStorage.getItem('useModularPlayer');
-    
     // Check if we have a saved modular character
     this.savedCharacterSelection = getSavedCharacterSelection();
     
-    // Use modular player if explicitly selected AND we have character data
-    this.useModularPlayer = useModularSetting === 'true' && this.savedCharacterSelection !== null;
+    // Use modular player if explicitly selected in BackgroundSelect AND we have character data
+    this.useModularPlayer = isModularPlayerSelected();
   }
 
   /**
@@ -6,11 +6,14 @@ import { BuilderGridOverlay } from '../managers/builder/BuilderGridOverlay';
 import { BuilderItemsController } from '../managers/builder/BuilderItemsController';
 import { BuilderSocialsController } from '../managers/builder/BuilderSocialsController';
 import { BuilderNPCsController } from '../managers/builder/BuilderNPCsController';
+import { BuilderGroupSelectionController } from '../managers/builder/BuilderGroupSelectionController';
+import { BuilderClipboardController } from '../managers/builder/BuilderClipboardController';
 import { DialogZoneRenderer } from '../managers/builder/DialogZoneRenderer';
 import { PlacedItemManager } from '../managers/PlacedItemManager';
 import { WorldManager } from '../managers/WorldManager';
 import { SCENE_KEYS } from '../constants/sceneKeys';
 import { updateCameraInfo } from '../stores/gameStores';
+import { startBuilderAutosave, startBuilderHistory, sceneBackground, getBuilderConfig } from '../stores/builderStores';
 import { EventBus, EVENTS, type MinimapNavigateEvent } from '../events/EventBus';
 import { updateSpriteDepth } from '../constants/depthLayers';
 import { AssetPreloader } from '../utils/AssetPreloader';
@@ -40,10 +43,15 @@ import { BaseScene } from './BaseScene';
  * - BuilderItemsController: Placeable items
  * - BuilderSocialsController: Social icons
  * - BuilderNPCsController: NPC entities
+ * - BuilderGroupSelectionController: Multi-selection and group drag
+ * - BuilderClipboardController: Copy, paste and duplicate (Ctrl+C/V/D)
  * - DialogZoneRenderer: Dialog zone visualization
  * 
  * @stores
  * - updateCameraInfo: Camera state for minimap
+ * - startBuilderAutosave: Draft autosave to localStorage
+ * - startBuilderHistory: Undo/redo history of config changes
+ * - sceneBackground: Scene is rebuilt when background or ground height changes
  * - EventBus: Minimap navigation events
  */
 export class BuilderScene extends BaseScene {
@@ -72,6 +80,12 @@ export class BuilderScene extends BaseScene {
   /** Manages NPC entities */
   private npcsController!: BuilderNPCsController;
   
+  /** Manages multi-selection (Shift-click, marquee) and group drag */
+  private groupSelectionController!: BuilderGroupSelectionController;
+  
+  /** Manages copy, paste and duplicate of entities */
+  private clipboardController!: BuilderClipboardController;
+  
   /** Manages dialog zone visualization */
   private dialogZoneRenderer!: DialogZoneRenderer;
   
@@ -88,6 +102,9 @@ export class BuilderScene extends BaseScene {
   /** Saved camera position to restore after scene switch */
   private savedCameraPosition: { scrollX: number; scrollY: number; zoom: number } | null = null;
   
+  /** Whether undo history survives this start (scene rebuilt after background change) */
+  private keepHistory = false;
+  
   // =========================================================================
   // PUBLIC API
   // =========================================================================
@@ -118,11 +135,16 @@ export class BuilderScene extends BaseScene {
   // LIFECYCLE: INIT
   // =========================================================================
 
-  init(data: { config: MapConfig; savedCameraPosition?: { scrollX: number; scrollY: number; zoom: number } | null }): void {
+  init(data: {
+    config: MapConfig;
+    savedCameraPosition?: { scrollX: number; scrollY: number; zoom: number } | null;
+    keepHistory?: boolean;
+  }): void {
     super.init(data);
     
     this.config = data.config;
     this.savedCameraPosition = data.savedCameraPosition ?? null;
+    this.keepHistory = data.keepHistory ?? false;
     
     // Initialize world manager with config
     this.worldManager = new WorldManager(this);
@@ -174,6 +196,8 @@ export class BuilderScene extends BaseScene {
     this.itemsController = new BuilderItemsController(this, groundY, this.config.worldWidth, this.config.worldHeight);
     this.socialsController = new BuilderSocialsController(this, this.config.worldWidth, this.config.worldHeight);
     this.npcsController = new BuilderNPCsController(this, groundY, this.config.worldWidth, this.config.worldHeight);
+    this.groupSelectionController = new BuilderGroupSelectionController(this, this.config.worldWidth, groundY);
+    this.clipboardController = new BuilderClipboardController(this, groundY);
     this.dialogZoneRenderer = new DialogZoneRenderer(this, this.config.worldWidth, this.config.worldHeight);
 
     // Setup background
@@ -195,6 +219,12 @@ export class BuilderScene extends BaseScene {
     // Create NPCs manager
     this.npcsController.create(this.config.placedNPCs || []);
     
+    // Create group selection (after entity controllers, uses their sprites)
+    this.groupSelectionController.create();
+    
+    // Setup copy/paste shortcuts
+    this.clipboardController.create();
+    
     // Create dialog zone renderer
     this.dialogZoneRenderer.create();
 
@@ -218,6 +248,19 @@ export class BuilderScene extends BaseScene {
       this.navigateToPosition(data.worldX, data.worldY);
     });
     
+    // Autosave config changes as draft (crash recovery)
+    this.addUnsubscriber(startBuilderAutosave());
+    
+    // Record config changes for undo/redo
+    this.addUnsubscriber(startBuilderHistory({ keepHistory: this.keepHistory }));
+    
+    // Background layers, ground and entity positions depend on the background, rebuild on change
+    this.addUnsubscriber(sceneBackground.subscribe(background => {
+      if (background && JSON.stringify(background) !== JSON.stringify(this.config.background)) {
+        this.rebuildWithCurrentConfig();
+      }
+    }));
+    
     // Mark as initialized
     this.isInitialized = true;
   }
@@ -251,6 +294,7 @@ export class BuilderScene extends BaseScene {
     this.socialsController?.updateSelectionVisuals();
     this.dialogZoneRenderer?.updateSelectionVisuals();
     this.npcsController?.update();
+    this.groupSelectionController?.updateSelectionVisuals();
     
     // Update camera info for minimap
     const camera = this.cameras.main;
@@ -276,6 +320,18 @@ export class BuilderScene extends BaseScene {
     this.cameraController.centerOn(x, y);
   }
   
+  /** Restart scene with builder config, keeping camera position and undo history */
+  private rebuildWithCurrentConfig(): void {
+    const config = getBuilderConfig();
+    if (!config) return;
+    
+    this.scene.restart({
+      config,
+      savedCameraPosition: this.getCameraPosition(),
+      keepHistory: true,
+    });
+  }
+  
   // =========================================================================
   // RESIZE HANDLING
   // =========================================================================
@@ -310,6 +366,8 @@ export class BuilderScene extends BaseScene {
     this.socialsController?.destroy();
     this.dialogZoneRenderer?.destroy();
     this.npcsController?.destroy();
+    this.groupSelectionController?.destroy();
+    this.clipboardController?.destroy();
     
     // Call parent cleanup
     super.shutdown();
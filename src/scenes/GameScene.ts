@@ -1,3 +1,4 @@
+import { get } from 'svelte/store';
 import { PlacedItemManager } from '../managers/PlacedItemManager';
 import { PlacedNPCManager } from '../managers/PlacedNPCManager';
 import { GameSocialManager } from '../managers/GameSocialManager';
@@ -8,16 +9,42 @@ import {
   isLoading, 
   setPlayerScreenPosition, 
   setActiveDialogZone,
-  setActiveNPCDialog
+  setActiveNPCDialog,
+  setInteractPrompt,
+  currentSceneId,
+  currentBackground,
+  gameFrameColor,
+  gameLanguages,
+  sceneInventory,
+  addCollectedItem
 } from '../stores';
-import type { DialogZone } from '../types/DialogTypes';
+import { DEFAULT_GAME_FRAME_COLOR } from '../constants/colors';
+import { hasDialogContent } from '../data/dialogTree';
+import { getDefaultDialogTrigger, type DialogZone } from '../types/DialogTypes';
+import type { InteractPrompt } from '../stores/dialogStores';
+import type { NPC } from '../entities/NPC';
 import type { IPlayer } from '../entities';
 import { GamePlayerManager } from '../managers/game/GamePlayerManager';
 import { GameCameraController } from '../managers/game/GameCameraController';
+import { DialogTriggerTracker } from '../managers/game/DialogTriggerTracker';
 import { WorldManager } from '../managers/WorldManager';
 import { AssetPreloader } from '../utils/AssetPreloader';
 import { BaseScene } from './BaseScene';
-import type { MapConfig } from '../data/mapConfig';
+import { DEFAULT_SCENE_ID, type MapConfig } from '../data/mapConfig';
+import { isPointInZone, sortZonesByPriority } from '../utils/dialogZoneLayout';
+import { getSceneLanguages } from '../types/Language';
+import { getCollectedItemIds, saveCollectedItemIds, clearCollectedItemIds } from '../data/InventoryStorage';
+
+/** How far above ground the player still counts as standing (ground-only zones) */
+const GROUND_ZONE_TOLERANCE = 2;
+
+/** Data passed to GameScene on start */
+interface GameSceneInitData {
+  /** Scene from the library to show (defaults to the last opened scene) */
+  sceneId?: string;
+  /** Use config edited in builder instead of the stored one */
+  useBuilderConfig?: boolean;
+}
 
 /**
  * GameScene - Runtime game with player control
@@ -42,12 +69,15 @@ import type { MapConfig } from '../data/mapConfig';
  * - PlacedItemManager: Static items in world
  * - PlacedNPCManager: NPC entities
  * - GameSocialManager: Social icons
+ * - DialogTriggerTracker: When zone and NPC dialogs are shown (one per kind)
  * 
  * @stores
+ * - currentSceneId: Scene shown when started without a scene ID
  * - isLoading: Loading overlay state
  * - dialogZonesStore: Live updates from builder
  * - setActiveDialogZone: Current zone for UI
  * - setActiveNPCDialog: Current NPC dialog for UI
+ * - setInteractPrompt: Prompt for zone or NPC waiting for interact key
  */
 
 export class GameScene extends BaseScene {
@@ -73,6 +103,12 @@ export class GameScene extends BaseScene {
   /** Manages clickable social icons */
   private socialManager!: GameSocialManager;
   
+  /** Decides when dialog zones are shown (trigger modes) */
+  private zoneTriggers = new DialogTriggerTracker();
+  
+  /** Decides when NPC dialogs are shown (trigger modes) */
+  private npcTriggers = new DialogTriggerTracker();
+  
   // =========================================================================
   // STATE
   // =========================================================================
@@ -90,7 +126,10 @@ export class GameScene extends BaseScene {
   private currentNPCId: string | null = null;
   
   /** Init data stored for async loading */
-  private initData?: { useBuilderConfig?: boolean };
+  private initData?: GameSceneInitData;
+  
+  /** ID of the scene from the library shown in game */
+  private sceneId: string = DEFAULT_SCENE_ID;
   
   // =========================================================================
   // CONSTANTS
@@ -108,6 +147,25 @@ export class GameScene extends BaseScene {
     return this.worldManager?.getConfig() || null;
   }
 
+  /** Get ID of the shown scene (used by sceneManager) */
+  public getSceneId(): string {
+    return this.sceneId;
+  }
+
+  /** Put collected items of the scene back and forget them (used by sceneManager) */
+  public resetInventory(): void {
+    if (!this.itemManager) return;
+    
+    const collectedIds = new Set(get(sceneInventory).collectedIds);
+    const collectedItems = (this.getMapConfig()?.placedItems ?? []).filter(item => collectedIds.has(item.id));
+    this.itemManager.createItems(collectedItems);
+    
+    sceneInventory.update(inventory => ({ ...inventory, collectedIds: [] }));
+    if (!this.isTestPlay()) {
+      clearCollectedItemIds(this.sceneId);
+    }
+  }
+
   constructor() {
     super({ key: SCENE_KEYS.GAME });
   }
@@ -116,11 +174,14 @@ export class GameScene extends BaseScene {
   // LIFECYCLE: INIT
   // =========================================================================
 
-  init(data?: { useBuilderConfig?: boolean }): void {
+  init(data?: GameSceneInitData): void {
     super.init(data);
     
     // Store init data for async processing
     this.initData = data;
+    this.sceneId = data?.sceneId ?? get(currentSceneId);
+    this.zoneTriggers.setScene(this.sceneId);
+    this.npcTriggers.setScene(this.sceneId);
     
     // Initialize managers
     this.worldManager = new WorldManager(this);
@@ -169,8 +230,18 @@ export class GameScene extends BaseScene {
       // Load player assets (modular character if selected)
       await this.playerManager.loadAssets();
       
-      // Load map configuration from file or builder store
-      const mapConfig = await this.worldManager.loadConfiguration(this.initData?.useBuilderConfig);
+      // Load map configuration from scene library or builder store
+      const mapConfig = await this.worldManager.loadConfiguration(this.sceneId, this.initData?.useBuilderConfig);
+      
+      // Scene look: background name and frame color, languages of the picker
+      currentBackground.set(this.worldManager.getBackgroundConfig().name);
+      gameFrameColor.set(mapConfig.gameFrameColor ?? DEFAULT_GAME_FRAME_COLOR);
+      gameLanguages.set(getSceneLanguages(mapConfig.languages));
+      
+      // Zones and NPCs without own trigger open dialogs the scene way (in range or on interact)
+      const defaultTrigger = getDefaultDialogTrigger(mapConfig.dialogInteraction);
+      this.zoneTriggers.setDefaultTrigger(defaultTrigger);
+      this.npcTriggers.setDefaultTrigger(defaultTrigger);
       
       // Setup parallax background
       await this.worldManager.setupBackground();
@@ -194,9 +265,20 @@ export class GameScene extends BaseScene {
         false
       );
       
+      // Collectible items collected before (also in earlier sessions) stay collected,
+      // builder test play starts with all items and doesn't touch saved progress
+      const placedItems = mapConfig.placedItems ?? [];
+      const savedCollectedIds = new Set(this.isTestPlay() ? [] : getCollectedItemIds(this.sceneId));
+      const collectibleIds = placedItems.filter(item => item.collectible).map(item => item.id);
+      sceneInventory.set({
+        collectedIds: collectibleIds.filter(id => savedCollectedIds.has(id)),
+        total: collectibleIds.length
+      });
+      
       // Load placed items from config
-      if (mapConfig.placedItems && mapConfig.placedItems.length > 0) {
-        this.itemManager.createItems(mapConfig.placedItems);
+      const itemsToCreate = placedItems.filter(item => !(item.collectible && savedCollectedIds.has(item.id)));
+      if (itemsToCreate.length > 0) {
+        this.itemManager.createItems(itemsToCreate);
       }
       
       // Add collision between player and physics-enabled items
@@ -205,6 +287,14 @@ export class GameScene extends BaseScene {
         this.physics.add.collider(this.player.getGameObject(), itemPhysicsGroup);
       }
       
+      // Pick up collectible items on touch
+      const collectibleGroup = this.itemManager.getCollectibleGroup();
+      if (collectibleGroup && this.player) {
+        this.physics.add.overlap(this.player.getGameObject(), collectibleGroup, (_player, pickupZone) => {
+          this.collectItem((pickupZone as Phaser.GameObjects.GameObject).getData('itemId') as string);
+        });
+      }
+      
       // Initialize social manager for clickable social icons
       this.socialManager = new GameSocialManager(this);
       
@@ -248,6 +338,23 @@ export class GameScene extends BaseScene {
     }
   }
 
+  /**
+   * Collect an item and save the inventory of the scene (not in builder test play)
+   */
+  private collectItem(itemId: string): void {
+    if (!this.itemManager.collectItem(itemId)) return;
+    
+    addCollectedItem(itemId);
+    if (!this.isTestPlay()) {
+      saveCollectedItemIds(this.sceneId, get(sceneInventory).collectedIds);
+    }
+  }
+
+  /** Whether the scene was started from builder with the edited config */
+  private isTestPlay(): boolean {
+    return this.initData?.useBuilderConfig ?? false;
+  }
+
   // =========================================================================
   // RESIZE HANDLING
   // =========================================================================
@@ -269,8 +376,12 @@ export class GameScene extends BaseScene {
     // Clear active dialog states
     setActiveDialogZone(null);
     setActiveNPCDialog(null);
+    setInteractPrompt(null);
+    sceneInventory.set({ collectedIds: [], total: 0 });
     this.currentDialogZone = null;
     this.currentNPCId = null;
+    this.zoneTriggers.reset();
+    this.npcTriggers.reset();
     
     // Destroy managers
     this.worldManager?.destroy();
@@ -308,33 +419,58 @@ export class GameScene extends BaseScene {
     // Update camera info for overlay
     this.cameraController.updateCameraInfo();
     
-    // Check dialog zone and NPC proximity
-    this.checkDialogZonesForPosition(playerX);
-    this.checkNPCProximity(playerX, playerY, camera);
+    // Check NPC proximity and dialog zones (NPC prompt gets interact key first)
+    const interactPressed = this.player.consumeInteractPress();
+    const npcCheck = this.checkNPCProximity(playerX, playerY, camera, interactPressed);
+    const promptZone = this.checkDialogZonesForPlayer(worldHeight, interactPressed && !npcCheck.interactUsed);
+    this.npcManager?.updateBehaviorContext(playerX, playerY, this.currentNPCId);
+    
+    if (npcCheck.prompt) {
+      setInteractPrompt(npcCheck.prompt);
+    } else if (promptZone) {
+      setInteractPrompt({
+        targetId: promptZone.id,
+        kind: 'zone',
+        screenX: playerX - camera.scrollX,
+        screenY: playerY - camera.scrollY
+      });
+    } else {
+      setInteractPrompt(null);
+    }
 
     // Update parallax scrolling
     this.worldManager.updateParallax(camera);
   }
   
   /**
-   * Check dialog zones for a given X position
+   * Check dialog zones for the player's feet (bottom center of hit bounds)
+   * @returns Zone waiting for interact key (null if none)
    */
-  private checkDialogZonesForPosition(playerX: number): void {
+  private checkDialogZonesForPlayer(worldHeight: number, interactPressed: boolean): DialogZone | null {
+    if (!this.player) return null;
     
-    // Find zone player is currently in (if any)
-    let activeZone: DialogZone | null = null;
-    for (const zone of this.dialogZones) {
-      if (playerX >= zone.x && playerX <= zone.x + zone.width) {
-        activeZone = zone;
-        break;
-      }
-    }
+    const bounds = this.player.getHitBounds();
+    const feetX = bounds.x + bounds.width / 2;
+    const feetY = bounds.y + bounds.height;
+    const groundY = this.player.getGroundY(worldHeight, this.worldManager.getGroundHeight());
+    const isOnGround = this.player.getPosition().y >= groundY - GROUND_ZONE_TOLERANCE;
+    
+    // Find zones player is currently in, the winning zone first
+    const zonesInRange = sortZonesByPriority(this.dialogZones, worldHeight).filter(zone =>
+      (!zone.groundOnly || isOnGround) && isPointInZone(zone, feetX, feetY, worldHeight)
+    );
+    
+    // Trigger mode decides whether the zone text is shown, only the winning zone is shown or prompts
+    const { states } = this.zoneTriggers.update(zonesInRange, interactPressed);
+    const activeZone = zonesInRange.find(zone => states.get(zone.id) === 'shown') ?? null;
     
     // Only update if zone changed
     if (activeZone?.id !== this.currentDialogZone?.id) {
       this.currentDialogZone = activeZone;
       setActiveDialogZone(activeZone);
     }
+    
+    return zonesInRange.find(zone => states.get(zone.id) === 'prompt') ?? null;
   }
   
   /**
@@ -353,22 +489,23 @@ export class GameScene extends BaseScene {
   
   /**
    * Check NPC proximity and show dialog bubble when player is near
+   * @returns Whether interact press was used and prompt of NPC waiting for it
    */
-  private checkNPCProximity(playerX: number, playerY: number, camera: Phaser.Cameras.Scene2D.Camera): void {
-    if (!this.npcManager) return;
+  private checkNPCProximity(
+    playerX: number,
+    playerY: number,
+    camera: Phaser.Cameras.Scene2D.Camera,
+    interactPressed: boolean
+  ): { interactUsed: boolean; prompt: InteractPrompt | null } {
+    if (!this.npcManager) return { interactUsed: false, prompt: null };
     
     const npcs = this.npcManager.getAllNPCs();
-    let nearestNPC: { id: string; distance: number; npc: any } | null = null;
+    let nearestNPC: { id: string; distance: number; npc: NPC } | null = null;
     
     // Find nearest NPC within their individual trigger radius
     for (const npc of npcs) {
       // Check if NPC has dialog content
-      const dialogData = npc.getDialogData?.() ?? [];
-      if (!dialogData || dialogData.length === 0) continue;
-      
-      // Check if any text has content
-      const hasContent = dialogData.some((t: { content?: string }) => t.content && t.content.trim().length > 0);
-      if (!hasContent) continue;
+      if (!hasDialogContent(npc.getDialogData?.())) continue;
       
       const dx = npc.x - playerX;
       const dy = npc.y - playerY;
@@ -384,8 +521,15 @@ export class GameScene extends BaseScene {
       }
     }
     
+    // Trigger mode decides whether the dialog is shown
+    const { states, interactUsed } = this.npcTriggers.update(
+      nearestNPC ? [{ id: nearestNPC.id, trigger: nearestNPC.npc.dialogTrigger }] : [],
+      interactPressed
+    );
+    const state = nearestNPC ? states.get(nearestNPC.id) : undefined;
+    
     // Update active NPC dialog if changed
-    if (nearestNPC) {
+    if (nearestNPC && state !== 'hidden') {
       const npc = nearestNPC.npc;
       const npcScreenX = npc.x - camera.scrollX;
       const npcScreenY = npc.y - camera.scrollY;
@@ -395,30 +539,42 @@ export class GameScene extends BaseScene {
       // Adjust screenY to account for topOffset (move reference point down)
       const adjustedScreenY = npcScreenY + npc.topOffset / 2;
       
-      if (this.currentNPCId !== nearestNPC.id) {
-        // New NPC in proximity
-        this.currentNPCId = nearestNPC.id;
-        setActiveNPCDialog({
-          npcId: nearestNPC.id,
-          texts: npc.getDialogData() ?? [],
-          screenX: npcScreenX,
-          screenY: adjustedScreenY,
-          npcHeight: npcContentHeight
-        });
-      } else {
-        // Same NPC, just update position
-        setActiveNPCDialog({
-          npcId: nearestNPC.id,
-          texts: npc.getDialogData() ?? [],
-          screenX: npcScreenX,
-          screenY: adjustedScreenY,
-          npcHeight: npcContentHeight
-        });
+      if (state === 'prompt') {
+        this.clearNPCDialog();
+        return {
+          interactUsed,
+          prompt: {
+            targetId: nearestNPC.id,
+            kind: 'npc',
+            screenX: npcScreenX,
+            screenY: adjustedScreenY - npcContentHeight / 2
+          }
+        };
       }
-    } else if (this.currentNPCId) {
-      // No NPC in proximity, clear dialog
-      this.currentNPCId = null;
-      setActiveNPCDialog(null);
+      
+      // New NPC in proximity or same NPC with updated position
+      this.currentNPCId = nearestNPC.id;
+      setActiveNPCDialog({
+        npcId: nearestNPC.id,
+        dialog: npc.getDialogData()!,
+        screenX: npcScreenX,
+        screenY: adjustedScreenY,
+        npcHeight: npcContentHeight
+      });
+    } else {
+      // No NPC in proximity (or its dialog is not triggered), clear dialog
+      this.clearNPCDialog();
     }
+    
+    return { interactUsed, prompt: null };
+  }
+  
+  /**
+   * Hide NPC dialog bubble
+   */
+  private clearNPCDialog(): void {
+    if (!this.currentNPCId) return;
+    this.currentNPCId = null;
+    setActiveNPCDialog(null);
   }
 }
@@ -2,7 +2,7 @@
  * Builder Core State
  */
 import { writable, derived, get } from 'svelte/store';
-import type { MapConfig } from '../../data/mapConfig';
+import { DEFAULT_SCENE_ID, type MapConfig } from '../../data/mapConfig';
 import { builderZoomLevel } from '../gameStores';
 
 // ==================== Types ====================
@@ -10,13 +10,26 @@ import { builderZoomLevel } from '../gameStores';
 /** Builder edit mode */
 export type BuilderEditMode = 'items' | 'dialogs' | 'socials' | 'npcs';
 
+/** Entity types that can be part of a group selection */
+export type BuilderEntityType = 'item' | 'npc' | 'social';
+
+/** Reference to a placed entity (member of a group selection) */
+export interface BuilderEntityRef {
+  type: BuilderEntityType;
+  id: string;
+}
+
 export interface BuilderState {
   isActive: boolean;
+  /** ID of the scene being edited (drafts are stored per scene) */
+  sceneId: string;
   config: MapConfig | null;
   selectedItemId: string | null;
   editMode: BuilderEditMode;
   selectedDialogZoneId: string | null;
   selectedSocialId: string | null;
+  /** Group selection (Shift-click, marquee) - single selections are cleared while it's not empty */
+  selectedEntities: BuilderEntityRef[];
   isPlayerSelected: boolean;
 }
 
@@ -24,11 +37,13 @@ export interface BuilderState {
 
 const initialState: BuilderState = {
   isActive: false,
+  sceneId: DEFAULT_SCENE_ID,
   config: null,
   selectedItemId: null,
   editMode: 'items',
   selectedDialogZoneId: null,
   selectedSocialId: null,
+  selectedEntities: [],
   isPlayerSelected: false,
 };
 
@@ -39,6 +54,9 @@ export const builderState = writable<BuilderState>(initialState);
 /** Whether builder mode is active */
 export const isBuilderMode = derived(builderState, $state => $state.isActive);
 
+/** ID of the scene edited in builder */
+export const builderSceneId = derived(builderState, $state => $state.sceneId);
+
 /** Current builder map configuration */
 export const builderConfig = derived(builderState, $state => $state.config);
 
@@ -76,9 +94,10 @@ export function setPinchingInBuilder(isPinching: boolean): void {
 // ==================== Actions - Builder Mode ====================
 
 /** Enter builder mode with a map configuration */
-export function enterBuilderMode(config: MapConfig): void {
+export function enterBuilderMode(config: MapConfig, sceneId: string = DEFAULT_SCENE_ID): void {
   builderState.set({
     isActive: true,
+    sceneId,
     config: { 
       ...config, 
       placedItems: config.placedItems || [],
@@ -89,6 +108,7 @@ export function enterBuilderMode(config: MapConfig): void {
     editMode: 'items',
     selectedDialogZoneId: null,
     selectedSocialId: null,
+    selectedEntities: [],
     isPlayerSelected: false,
   });
   // Reset zoom state when entering builder (will be set properly by camera controller)
@@ -97,27 +117,29 @@ export function enterBuilderMode(config: MapConfig): void {
 
 /** Exit builder mode (preserves config for potential return) */
 export function exitBuilderMode(): void {
-  builderState.update(state => {
+  builderState.update(state => ({
+    ...state,
+    isActive: false,
+    selectedItemId: null,
+    selectedEntities: [],
     // Clean up empty dialog zones before exiting
-    const cleanedConfig = state.config ? {
-      ...state.config,
-      dialogZones: (state.config.dialogZones || []).filter(zone => {
-        // Keep zone if it has at least one text with title OR content
-        return zone.texts.some(text => text.title.trim() !== '' || text.content.trim() !== '');
-      })
-    } : state.config;
-    
-    return {
-      ...state,
-      isActive: false,
-      selectedItemId: null,
-      config: cleanedConfig
-    };
-  });
+    config: state.config ? removeEmptyDialogZones(state.config) : state.config
+  }));
   // Reset zoom state when exiting builder
   builderZoomLevel.set(1);
 }
 
+/** Config without dialog zones that have no text in any language */
+export function removeEmptyDialogZones(config: MapConfig): MapConfig {
+  return {
+    ...config,
+    dialogZones: (config.dialogZones || []).filter(zone => {
+      // Keep zone if it has at least one text with title OR content
+      return zone.texts.some(text => text.title.trim() !== '' || text.content.trim() !== '');
+    })
+  };
+}
+
 /**
  * Get current builder configuration snapshot
  * Uses Svelte's get() for synchronous access
@@ -127,6 +149,11 @@ export function getBuilderConfig(): MapConfig | null {
   return get(builderState).config;
 }
 
+/** Get ID of the scene currently edited in builder */
+export function getBuilderSceneId(): string {
+  return get(builderState).sceneId;
+}
+
 // ==================== Actions - Edit Mode ====================
 
 /** Set builder edit mode (items, dialogs, socials or npcs) */
@@ -137,6 +164,8 @@ export function setBuilderEditMode(mode: BuilderEditMode): void {
     // Clear item and dialog selections when switching modes
     selectedItemId: null,
     selectedDialogZoneId: null,
+    // Group may mix items, NPCs and socials, only dialogs mode can't edit it
+    selectedEntities: mode === 'dialogs' ? [] : state.selectedEntities,
   }));
 }
 
@@ -151,6 +180,7 @@ export function toggleBuilderEditMode(): void {
       editMode: nextMode,
       selectedItemId: null,
       selectedDialogZoneId: null,
+      selectedEntities: nextMode === 'dialogs' ? [] : state.selectedEntities,
     };
   });
 }
@@ -0,0 +1,71 @@
+/**
+ * Builder Clipboard Stores
+ * Reading selected entities for copy and inserting pasted entities
+ */
+import { get } from 'svelte/store';
+import type { BuilderClipboardData } from '../../utils/builderClipboard';
+import { builderState } from './builderState';
+
+// ==================== Actions - Clipboard ====================
+
+/**
+ * Get selected entities for copying
+ * Group selection, selected item/NPC, social or dialog zone (in this order)
+ * @returns null if nothing is selected
+ */
+export function getSelectedClipboardData(): BuilderClipboardData | null {
+  const state = get(builderState);
+  if (!state.config) return null;
+
+  const { placedItems = [], placedNPCs = [], placedSocials = [], dialogZones = [] } = state.config;
+
+  let ids: Set<string>;
+  if (state.selectedEntities.length > 0) {
+    ids = new Set(state.selectedEntities.map(entity => entity.id));
+  } else {
+    const selectedId = state.selectedItemId ?? state.selectedSocialId ?? state.selectedDialogZoneId;
+    if (!selectedId) return null;
+    ids = new Set([selectedId]);
+  }
+
+  return {
+    placedItems: placedItems.filter(item => ids.has(item.id)),
+    placedNPCs: placedNPCs.filter(npc => ids.has(npc.id)),
+    placedSocials: placedSocials.filter(social => ids.has(social.id)),
+    dialogZones: dialogZones.filter(zone => ids.has(zone.id)),
+  };
+}
+
+/**
+ * Add pasted entities to builder config and select them
+ * Everything is added in one config update (one undo step)
+ */
+export function addPastedEntities(data: BuilderClipboardData): void {
+  builderState.update(state => {
+    if (!state.config) return state;
+
+    const entities = [
+      ...data.placedItems.map(item => ({ type: 'item' as const, id: item.id })),
+      ...data.placedNPCs.map(npc => ({ type: 'npc' as const, id: npc.id })),
+      ...data.placedSocials.map(social => ({ type: 'social' as const, id: social.id })),
+    ];
+    const single = entities.length === 1 ? entities[0] : null;
+
+    return {
+      ...state,
+      config: {
+        ...state.config,
+        placedItems: [...(state.config.placedItems ?? []), ...data.placedItems],
+        placedNPCs: [...(state.config.placedNPCs ?? []), ...data.placedNPCs],
+        placedSocials: [...(state.config.placedSocials ?? []), ...data.placedSocials],
+        dialogZones: [...(state.config.dialogZones ?? []), ...data.dialogZones],
+      },
+      // Select pasted entities (several entities become a group selection)
+      selectedEntities: entities.length > 1 ? entities : [],
+      selectedItemId: single && single.type !== 'social' ? single.id : null,
+      selectedSocialId: single?.type === 'social' ? single.id : null,
+      selectedDialogZoneId: data.dialogZones[0]?.id ?? null,
+      isPlayerSelected: false,
+    };
+  });
+}
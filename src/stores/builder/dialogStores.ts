@@ -3,6 +3,7 @@
  */
 import { writable, derived, get } from 'svelte/store';
 import type { DialogZone, LocalizedText } from '../../types/DialogTypes';
+import { refreshSourceHash, getTranslationSourceLanguage } from '../../data/translations';
 import { builderState } from './builderState';
 
 // ==================== Derived Stores ====================
@@ -92,13 +93,14 @@ export function getDialogZone(id: string): DialogZone | undefined {
 /** Update localized text for a dialog zone */
 export function updateDialogZoneText(zoneId: string, language: string, updates: Partial<LocalizedText>): void {
   builderState.update(state => {
-    if (!state.config || !state.config.dialogZones) return state;
+    const { config } = state;
+    if (!config || !config.dialogZones) return state;
     
     return {
       ...state,
       config: {
-        ...state.config,
-        dialogZones: state.config.dialogZones.map(zone => {
+        ...config,
+        dialogZones: config.dialogZones.map(zone => {
           if (zone.id !== zoneId) return zone;
           
           const existingIndex = zone.texts.findIndex(t => t.language === language);
@@ -114,6 +116,10 @@ export function updateDialogZoneText(zoneId: string, language: string, updates:
             newTexts = [...zone.texts, { language, title: '', content: '', ...updates }];
           }
           
+          if (updates.content !== undefined) {
+            newTexts = refreshSourceHash(newTexts, language, getTranslationSourceLanguage(config));
+          }
+          
           return { ...zone, texts: newTexts };
         })
       }
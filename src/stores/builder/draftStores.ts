@@ -0,0 +1,96 @@
+/**
+ * Builder Draft Stores
+ * Autosave of builder config to localStorage and recovery of unsaved drafts
+ */
+import { writable, get } from 'svelte/store';
+import type { MapConfig } from '../../data/mapConfig';
+import { getBuilderDraft, saveBuilderDraft, clearBuilderDraft, type BuilderDraft } from '../../data/DraftStorage';
+import { builderState } from './builderState';
+
+/** Minimum delay between two autosaves */
+const AUTOSAVE_THROTTLE_MS = 2000;
+
+// ==================== Stores ====================
+
+/**
+ * Draft found when entering builder that differs from the opened config
+ * Autosave is paused until the user restores or discards it
+ */
+export const pendingBuilderDraft = writable<BuilderDraft | null>(null);
+
+// ==================== Actions - Draft Recovery ====================
+
+/** Check for unsaved draft of the current scene (called when entering builder) */
+export function checkForBuilderDraft(): void {
+  const state = get(builderState);
+  const draft = getBuilderDraft(state.sceneId);
+  
+  if (draft && JSON.stringify(draft.config) !== JSON.stringify(state.config)) {
+    pendingBuilderDraft.set(draft);
+  } else {
+    pendingBuilderDraft.set(null);
+  }
+}
+
+/** Take pending draft for restoring (resumes autosave) */
+export function takePendingBuilderDraft(): BuilderDraft | null {
+  const draft = get(pendingBuilderDraft);
+  pendingBuilderDraft.set(null);
+  return draft;
+}
+
+/** Delete pending draft from storage (resumes autosave) */
+export function discardPendingBuilderDraft(): void {
+  const draft = get(pendingBuilderDraft);
+  if (draft) {
+    clearBuilderDraft(draft.sceneId);
+  }
+  pendingBuilderDraft.set(null);
+}
+
+// ==================== Autosave ====================
+
+/**
+ * Start throttled autosave of builder config changes
+ * Initial config is not saved, only changes made after the call
+ * @returns Cleanup function that writes pending changes and stops autosave
+ */
+export function startBuilderAutosave(): () => void {
+  let lastConfig: MapConfig | null = get(builderState).config;
+  let pendingSave: { sceneId: string; config: MapConfig } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  
+  function flush(): void {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (pendingSave) {
+      saveBuilderDraft(pendingSave.sceneId, pendingSave.config);
+      pendingSave = null;
+    }
+  }
+  
+  const unsubscribe = builderState.subscribe(state => {
+    // Only react to config changes (selection changes keep the same config object)
+    if (!state.isActive || !state.config || state.config === lastConfig) return;
+    lastConfig = state.config;
+    
+    // Don't overwrite a draft the user has not decided about yet
+    if (get(pendingBuilderDraft)) return;
+    
+    pendingSave = { sceneId: state.sceneId, config: state.config };
+    if (!timer) {
+      timer = setTimeout(flush, AUTOSAVE_THROTTLE_MS);
+    }
+  });
+  
+  // Write last changes when the tab is closed or reloaded
+  window.addEventListener('pagehide', flush);
+  
+  return () => {
+    unsubscribe();
+    window.removeEventListener('pagehide', flush);
+    flush();
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Builder History Stores
+ * Undo/redo of builder config changes (every change of config is one step)
+ */
+import { writable, derived, get } from 'svelte/store';
+import type { MapConfig } from '../../data/mapConfig';
+import { isTypingInTextField } from '../../utils/inputUtils';
+import { builderState, isDraggingInBuilder, type BuilderState } from './builderState';
+
+/** Maximum number of undo steps kept in memory */
+const MAX_HISTORY_SIZE = 100;
+
+/** Text edits closer to each other than this are merged into one step */
+const TYPING_MERGE_MS = 1000;
+
+interface HistoryStacks {
+  /** Configs before each change (last = most recent) */
+  past: MapConfig[];
+  /** Configs undone and available for redo (last = next redo) */
+  future: MapConfig[];
+}
+
+const history = writable<HistoryStacks>({ past: [], future: [] });
+
+// ==================== Derived Stores ====================
+
+/** Whether there is a change to undo */
+export const canUndo = derived(history, $history => $history.past.length > 0);
+
+/** Whether there is an undone change to redo */
+export const canRedo = derived(history, $history => $history.future.length > 0);
+
+// ==================== Tracking ====================
+
+/** Config seen by the tracker (changes are detected by reference) */
+let lastConfig: MapConfig | null = null;
+/** Set while undo/redo replaces config so it's not recorded as a new change */
+let isApplyingHistory = false;
+/** Whether current drag already recorded its step */
+let dragRecorded = false;
+/** Time of last recorded text edit */
+let lastTypingChangeAt = 0;
+
+function configsEqual(a: MapConfig, b: MapConfig): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Start recording builder config changes
+ * History is cleared, so only changes made after the call can be undone
+ * A whole drag (items, NPCs, socials, player, zone edges) is recorded as one step
+ * @param options.keepHistory - Keep recorded steps (scene rebuilt without leaving the builder)
+ * @returns Cleanup function that stops recording
+ */
+export function startBuilderHistory(options: { keepHistory?: boolean } = {}): () => void {
+  if (!options.keepHistory) {
+    history.set({ past: [], future: [] });
+  }
+  lastConfig = get(builderState).config;
+  dragRecorded = false;
+  lastTypingChangeAt = 0;
+
+  const dragUnsubscribe = isDraggingInBuilder.subscribe(isDragging => {
+    if (!isDragging) dragRecorded = false;
+  });
+
+  const stateUnsubscribe = builderState.subscribe(state => {
+    // Only react to config changes (selection changes keep the same config object)
+    if (!state.isActive || !state.config || state.config === lastConfig) return;
+    const previousConfig = lastConfig;
+    lastConfig = state.config;
+
+    if (isApplyingHistory || !previousConfig) return;
+
+    // Merge consecutive changes of one drag or one typing burst
+    if (get(isDraggingInBuilder)) {
+      if (dragRecorded) return;
+    } else if (isTypingInTextField()) {
+      const now = Date.now();
+      const isSameBurst = now - lastTypingChangeAt < TYPING_MERGE_MS;
+      lastTypingChangeAt = now;
+      if (isSameBurst) return;
+    } else {
+      lastTypingChangeAt = 0;
+    }
+
+    // Ignore no-op updates (e.g. click on selected item without moving it)
+    if (configsEqual(previousConfig, state.config)) return;
+
+    if (get(isDraggingInBuilder)) {
+      dragRecorded = true;
+    }
+
+    history.update(({ past }) => ({
+      past: [...past, previousConfig].slice(-MAX_HISTORY_SIZE),
+      future: [],
+    }));
+  });
+
+  return () => {
+    dragUnsubscribe();
+    stateUnsubscribe();
+    lastConfig = null;
+  };
+}
+
+// ==================== Actions ====================
+
+/**
+ * Replace builder config with a history snapshot
+ * Selections pointing to entities that don't exist in the snapshot are cleared
+ */
+function applyHistoryConfig(config: MapConfig): void {
+  const hasEntity = (id: string | null, ...collections: Array<Array<{ id: string }> | undefined>) =>
+    id !== null && collections.some(collection => collection?.some(entity => entity.id === id));
+
+  isApplyingHistory = true;
+  try {
+    builderState.update((state): BuilderState => ({
+      ...state,
+      config,
+      selectedItemId: hasEntity(state.selectedItemId, config.placedItems, config.placedNPCs) ? state.selectedItemId : null,
+      selectedSocialId: hasEntity(state.selectedSocialId, config.placedSocials) ? state.selectedSocialId : null,
+      selectedDialogZoneId: hasEntity(state.selectedDialogZoneId, config.dialogZones) ? state.selectedDialogZoneId : null,
+      selectedEntities: state.selectedEntities.filter(entity =>
+        hasEntity(entity.id, config.placedItems, config.placedNPCs, config.placedSocials)
+      ),
+    }));
+  } finally {
+    isApplyingHistory = false;
+  }
+}
+
+/** Undo last builder change */
+export function undo(): void {
+  // Don't fight with an active drag over the config
+  if (get(isDraggingInBuilder)) return;
+
+  const current = get(builderState).config;
+  const { past, future } = get(history);
+  if (!current || past.length === 0) return;
+
+  const previous = past[past.length - 1];
+  history.set({ past: past.slice(0, -1), future: [...future, current] });
+  applyHistoryConfig(previous);
+}
+
+/** Redo last undone builder change */
+export function redo(): void {
+  if (get(isDraggingInBuilder)) return;
+
+  const current = get(builderState).config;
+  const { past, future } = get(history);
+  if (!current || future.length === 0) return;
+
+  const next = future[future.length - 1];
+  history.set({ past: [...past, current], future: future.slice(0, -1) });
+  applyHistoryConfig(next);
+}
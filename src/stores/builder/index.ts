@@ -4,4 +4,8 @@ export * from './socialStores';
 export * from './dialogStores';
 export * from './selectionStores';
 export * from './npcStores';
-
+export * from './draftStores';
+export * from './historyStores';
+export * from './clipboardStores';
+export * from './sceneSettingsStores';
+export * from './translationStores';
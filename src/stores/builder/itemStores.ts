@@ -24,6 +24,9 @@ export const selectedItemPhysicsEnabled = derived(selectedItem, $item => $item?.
 /** Whether selected item is horizontally flipped */
 export const selectedItemFlipX = derived(selectedItem, $item => $item?.flipX ?? false);
 
+/** Whether selected item is collectible */
+export const selectedItemCollectible = derived(selectedItem, $item => $item?.collectible ?? false);
+
 /**
  * Screen position of selected item (updated from Phaser scene)
  * Used for positioning item controls overlay
@@ -96,8 +99,9 @@ export function selectItem(id: string | null): void {
   builderState.update(state => ({
     ...state,
     selectedItemId: id,
-    // Deselect player when selecting an item
-    isPlayerSelected: id ? false : state.isPlayerSelected
+    // Deselect player and group when selecting an item
+    isPlayerSelected: id ? false : state.isPlayerSelected,
+    selectedEntities: id ? [] : state.selectedEntities
   }));
 }
 
@@ -113,6 +117,15 @@ export function updateItemPhysics(id: string, physicsEnabled: boolean): void {
   }
 }
 
+/** Update collectible state of an existing item (collectible items don't block the player) */
+export function updateItemCollectible(id: string, collectible: boolean): void {
+  if (collectible) {
+    updatePlacedItem(id, { collectible, physicsEnabled: false });
+  } else {
+    updatePlacedItem(id, { collectible });
+  }
+}
+
 /** Update flipX state of an existing item */
 export function updateItemFlipX(id: string, flipX: boolean): void {
   updatePlacedItem(id, { flipX });
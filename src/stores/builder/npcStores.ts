@@ -1,5 +1,19 @@
 import { writable, derived } from 'svelte/store';
-import type { PlacedNPC } from '../../data/mapConfig';
+import type { MapConfig, PlacedNPC } from '../../data/mapConfig';
+import type { DialogTree } from '../../types/DialogTypes';
+import type { Language } from '../../types/Language';
+import {
+  createDialogTree,
+  createDialogNode,
+  updateDialogNode,
+  addDialogNode,
+  removeDialogNode,
+  addDialogChoice,
+  updateDialogChoice,
+  removeDialogChoice,
+  setLocalizedContent,
+} from '../../data/dialogTree';
+import { refreshSourceHash, getTranslationSourceLanguage } from '../../data/translations';
 import { builderState } from './builderState';
 
 // ==================== Derived Stores ====================
@@ -65,31 +79,22 @@ export function updatePlacedNPC(id: string, updates: Partial<PlacedNPC>): void {
   });
 }
 
-import type { Language } from '../../types/Language';
+export function updateNPCFlipX(id: string, flipX: boolean): void {
+  updatePlacedNPC(id, { flipX });
+}
 
-export function updateNPCDialogText(id: string, language: Language, updates: { content?: string }): void {
+export function deletePlacedNPC(id: string): void {
   builderState.update(state => {
     if (!state.config?.placedNPCs) return state;
     
-    const placedNPCs = state.config.placedNPCs.map(npc => {
-      if (npc.id !== id) return npc;
-      
-      const dialogs = npc.dialog || [];
-      const existingIndex = dialogs.findIndex(t => t.language === language);
-      
-      let newDialogs;
-      if (existingIndex >= 0) {
-        newDialogs = [...dialogs];
-        newDialogs[existingIndex] = { ...newDialogs[existingIndex], ...updates };
-      } else {
-        newDialogs = [...dialogs, { language, title: '', content: updates.content ?? '' }];
-      }
-      
-      return { ...npc, dialog: newDialogs };
-    });
+    const placedNPCs = state.config.placedNPCs.filter(npc => npc.id !== id);
+    
+    // Clear selection if deleted item was selected
+    const selectedItemId = state.selectedItemId === id ? null : state.selectedItemId;
     
     return {
       ...state,
+      selectedItemId,
       config: {
         ...state.config,
         placedNPCs
@@ -99,27 +104,91 @@ export function updateNPCDialogText(id: string, language: Language, updates: { c
   });
 }
 
-export function updateNPCFlipX(id: string, flipX: boolean): void {
-  updatePlacedNPC(id, { flipX });
-}
+// ==================== Actions - NPC Dialog ====================
 
-export function deletePlacedNPC(id: string): void {
+/**
+ * Replace dialog tree of an NPC with the one returned by the updater
+ * NPC without dialog gets an empty single-node conversation first
+ */
+function updateNPCDialog(id: string, updater: (tree: DialogTree, config: MapConfig) => DialogTree): void {
   builderState.update(state => {
-    if (!state.config?.placedNPCs) return state;
+    const { config } = state;
+    if (!config?.placedNPCs) return state;
     
-    const placedNPCs = state.config.placedNPCs.filter(npc => npc.id !== id);
-    
-    // Clear selection if deleted item was selected
-    const selectedItemId = state.selectedItemId === id ? null : state.selectedItemId;
+    const placedNPCs = config.placedNPCs.map(npc =>
+      npc.id === id ? { ...npc, dialog: updater(npc.dialog ?? createDialogTree(), config) } : npc
+    );
     
     return {
       ...state,
-      selectedItemId,
       config: {
-        ...state.config,
+        ...config,
         placedNPCs
       },
       isDirty: true
     };
   });
 }
+
+/**
+ * Update text of a dialog node in one language
+ * @param nodeId - Node to update (start node if not set)
+ */
+export function updateNPCDialogText(id: string, language: Language, updates: { content?: string }, nodeId?: string): void {
+  updateNPCDialog(id, (tree, config) => updateDialogNode(tree, nodeId ?? tree.startNodeId, node => ({
+    ...node,
+    texts: refreshSourceHash(
+      setLocalizedContent(node.texts, language, updates.content ?? ''),
+      language,
+      getTranslationSourceLanguage(config)
+    ),
+  })));
+}
+
+/**
+ * Add empty end node to NPC dialog
+ * @returns ID of the new node
+ */
+export function addNPCDialogNode(id: string): string {
+  const node = createDialogNode();
+  updateNPCDialog(id, tree => addDialogNode(tree, node));
+  return node.id;
+}
+
+/** Remove node from NPC dialog (links to it end the conversation) */
+export function deleteNPCDialogNode(id: string, nodeId: string): void {
+  updateNPCDialog(id, tree => removeDialogNode(tree, nodeId));
+}
+
+/** Set node where the conversation with NPC starts */
+export function setNPCDialogStartNode(id: string, nodeId: string): void {
+  updateNPCDialog(id, tree => ({ ...tree, startNodeId: nodeId }));
+}
+
+/** Set next page of a node without choices (null = end node) */
+export function setNPCDialogNextNode(id: string, nodeId: string, nextNodeId: string | null): void {
+  updateNPCDialog(id, tree => updateDialogNode(tree, nodeId, node => ({ ...node, nextNodeId })));
+}
+
+/** Add player choice to a dialog node */
+export function addNPCDialogChoice(id: string, nodeId: string): void {
+  updateNPCDialog(id, tree => addDialogChoice(tree, nodeId));
+}
+
+/** Update label of a player choice in one language */
+export function updateNPCDialogChoiceText(id: string, nodeId: string, choiceId: string, language: Language, content: string): void {
+  updateNPCDialog(id, (tree, config) => updateDialogChoice(tree, nodeId, choiceId, choice => ({
+    ...choice,
+    texts: refreshSourceHash(setLocalizedContent(choice.texts, language, content), language, getTranslationSourceLanguage(config)),
+  })));
+}
+
+/** Set node shown after a player choice (null = conversation ends) */
+export function setNPCDialogChoiceTarget(id: string, nodeId: string, choiceId: string, nextNodeId: string | null): void {
+  updateNPCDialog(id, tree => updateDialogChoice(tree, nodeId, choiceId, choice => ({ ...choice, nextNodeId })));
+}
+
+/** Remove player choice from a dialog node */
+export function deleteNPCDialogChoice(id: string, nodeId: string, choiceId: string): void {
+  updateNPCDialog(id, tree => removeDialogChoice(tree, nodeId, choiceId));
+}
@@ -0,0 +1,95 @@
+/**
+ * Builder Scene Settings Stores
+ * Background, ground height, frame color, languages and dialog interaction of the edited scene
+ */
+import { derived } from 'svelte/store';
+import type { MapBackground, MapConfig } from '../../data/mapConfig';
+import { resolveSceneBackground } from '../../data/background';
+import { DEFAULT_GAME_FRAME_COLOR } from '../../constants/colors';
+import { getSceneLanguages, type Language } from '../../types/Language';
+import { DEFAULT_DIALOG_INTERACTION, type DialogInteraction } from '../../types/DialogTypes';
+import { builderState } from './builderState';
+
+// ==================== Derived Stores ====================
+
+/** Background of the edited scene as stored in config */
+export const sceneBackground = derived(builderState, $state => $state.config?.background ?? null);
+
+/** Background of the edited scene with overrides applied (what is rendered) */
+export const resolvedSceneBackground = derived(sceneBackground, $background =>
+  resolveSceneBackground($background ?? undefined)
+);
+
+/** Frame color of the edited scene */
+export const sceneGameFrameColor = derived(builderState, $state =>
+  $state.config?.gameFrameColor ?? DEFAULT_GAME_FRAME_COLOR
+);
+
+/** Languages of the edited scene (language tabs of dialog panels) */
+export const sceneLanguages = derived(builderState, $state => getSceneLanguages($state.config?.languages));
+
+/** How dialogs of the edited scene open when zones and NPCs have no own trigger */
+export const sceneDialogInteraction = derived(builderState, $state =>
+  $state.config?.dialogInteraction ?? DEFAULT_DIALOG_INTERACTION
+);
+
+// ==================== Actions ====================
+
+function updateConfig(updater: (config: MapConfig) => MapConfig): void {
+  builderState.update(state => {
+    if (!state.config) return state;
+    return { ...state, config: updater(state.config) };
+  });
+}
+
+/**
+ * Change background of the edited scene
+ * Overrides are dropped, they belong to layers of the previous background
+ */
+export function setSceneBackgroundFolder(folder: string): void {
+  updateConfig(config => config.background.folder === folder
+    ? config
+    : { ...config, background: { folder } }
+  );
+}
+
+/**
+ * Change overrides of the scene background
+ * Undefined value removes the override (catalog value is used)
+ */
+export function updateSceneBackground(changes: Partial<Omit<MapBackground, 'folder'>>): void {
+  updateConfig(config => {
+    const background: MapBackground = { ...config.background, ...changes };
+    (Object.keys(changes) as Array<keyof typeof changes>).forEach(key => {
+      if (changes[key] === undefined) delete background[key];
+    });
+    return { ...config, background };
+  });
+}
+
+/** Set frame color of the edited scene (undefined = default color) */
+export function setSceneGameFrameColor(color: string | undefined): void {
+  updateConfig(config => {
+    const { gameFrameColor: _previous, ...rest } = config;
+    return color === undefined ? rest : { ...rest, gameFrameColor: color };
+  });
+}
+
+/**
+ * Set languages of the edited scene
+ * Empty list or undefined removes the setting (all known languages are offered)
+ */
+export function setSceneLanguages(languages: Language[] | undefined): void {
+  updateConfig(config => {
+    const { languages: _previous, ...rest } = config;
+    return languages === undefined || languages.length === 0 ? rest : { ...rest, languages };
+  });
+}
+
+/** Set dialog interaction of the edited scene (default interaction removes the setting) */
+export function setSceneDialogInteraction(interaction: DialogInteraction): void {
+  updateConfig(config => {
+    const { dialogInteraction: _previous, ...rest } = config;
+    return interaction === DEFAULT_DIALOG_INTERACTION ? rest : { ...rest, dialogInteraction: interaction };
+  });
+}
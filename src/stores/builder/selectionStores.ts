@@ -1,8 +1,13 @@
 /**
  * Builder Selection Stores
  */
-import { derived } from 'svelte/store';
-import { builderState } from './builderState';
+import { writable, derived, get } from 'svelte/store';
+import type { MapConfig, PlacedItem, PlacedNPC } from '../../data/mapConfig';
+import { DEFAULT_SOCIAL_SCALE, type PlacedSocial } from '../../types/SocialTypes';
+import { getNPCDefinition } from '../../data/npcs/npcRegistry';
+import { resolveSceneBackground } from '../../data/background';
+import { getGroundY } from '../../constants/playerConstants';
+import { builderState, type BuilderEntityRef, type BuilderEntityType } from './builderState';
 
 // ==================== Derived Stores ====================
 
@@ -29,18 +34,245 @@ export function selectPlayer(selected: boolean): void {
   builderState.update(state => ({
     ...state,
     isPlayerSelected: selected,
-    // Deselect item when selecting player
-    selectedItemId: selected ? null : state.selectedItemId
+    // Deselect item and group when selecting player
+    selectedItemId: selected ? null : state.selectedItemId,
+    selectedEntities: selected ? [] : state.selectedEntities
   }));
 }
 
-/** Clear all selections (items, dialogs, socials, player) */
+/** Clear all selections (items, dialogs, socials, group, player) */
 export function clearSelection(): void {
   builderState.update(state => ({
     ...state,
     selectedItemId: null,
     selectedDialogZoneId: null,
     selectedSocialId: null,
+    selectedEntities: [],
     isPlayerSelected: false
   }));
 }
+
+// ==================== Group Selection ====================
+
+/** Scale factor applied by one step of group scaling */
+export const GROUP_SCALE_STEP = 1.1;
+
+/** Scale limits for entities scaled as a group */
+const MIN_GROUP_ENTITY_SCALE = 0.1;
+const MAX_GROUP_ENTITY_SCALE = 20;
+
+/** Entities in group selection (empty if no group is selected) */
+export const selectedEntities = derived(builderState, $state => $state.selectedEntities);
+
+/**
+ * Screen position of group selection bounds (updated from Phaser scene)
+ * Used for positioning group controls overlay
+ */
+export const groupSelectionScreenPosition = writable<{ screenX: number; screenY: number; groupHeight: number } | null>(null);
+
+/** Update group selection screen position (called from BuilderGroupSelectionController) */
+export function updateGroupSelectionScreenPosition(pos: { screenX: number; screenY: number; groupHeight: number } | null): void {
+  groupSelectionScreenPosition.set(pos);
+}
+
+/** Whether entity is part of the group selection */
+export function isInGroupSelection(id: string): boolean {
+  return get(builderState).selectedEntities.some(entity => entity.id === id);
+}
+
+/** Find type of placed entity by ID */
+function getEntityType(config: MapConfig, id: string): BuilderEntityType | null {
+  if (config.placedItems?.some(item => item.id === id)) return 'item';
+  if (config.placedNPCs?.some(npc => npc.id === id)) return 'npc';
+  if (config.placedSocials?.some(social => social.id === id)) return 'social';
+  return null;
+}
+
+/**
+ * Add or remove entity from group selection (Shift-click)
+ * Current single selection becomes the first group member
+ */
+export function toggleGroupSelection(entity: BuilderEntityRef): void {
+  builderState.update(state => {
+    if (!state.config) return state;
+    
+    let entities = state.selectedEntities;
+    if (entities.length === 0) {
+      const singleId = state.selectedItemId ?? state.selectedSocialId;
+      const singleType = singleId ? getEntityType(state.config, singleId) : null;
+      if (singleId && singleType && singleId !== entity.id) {
+        entities = [{ type: singleType, id: singleId }];
+      }
+    }
+    
+    const isMember = entities.some(e => e.id === entity.id);
+    return {
+      ...state,
+      selectedEntities: isMember ? entities.filter(e => e.id !== entity.id) : [...entities, entity],
+      selectedItemId: null,
+      selectedSocialId: null,
+      isPlayerSelected: false,
+    };
+  });
+}
+
+/** Add entities to group selection (marquee select) */
+export function addToGroupSelection(entities: BuilderEntityRef[]): void {
+  if (entities.length === 0) return;
+  
+  builderState.update(state => {
+    const newEntities = entities.filter(entity => !state.selectedEntities.some(e => e.id === entity.id));
+    return {
+      ...state,
+      selectedEntities: [...state.selectedEntities, ...newEntities],
+      selectedItemId: null,
+      selectedSocialId: null,
+      isPlayerSelected: false,
+    };
+  });
+}
+
+/**
+ * Apply a transformation to all entities in the group selection
+ * All changes are written in one config update (one undo step)
+ */
+function transformGroupSelection(transform: {
+  item?: (item: PlacedItem) => PlacedItem;
+  npc?: (npc: PlacedNPC) => PlacedNPC;
+  social?: (social: PlacedSocial) => PlacedSocial;
+}): void {
+  builderState.update(state => {
+    if (!state.config || state.selectedEntities.length === 0) return state;
+    
+    const ids = new Set(state.selectedEntities.map(entity => entity.id));
+    const apply = <T extends { id: string }>(entities: T[] | undefined, fn?: (entity: T) => T) =>
+      entities && fn ? entities.map(entity => ids.has(entity.id) ? fn(entity) : entity) : entities;
+    
+    return {
+      ...state,
+      config: {
+        ...state.config,
+        placedItems: apply(state.config.placedItems, transform.item),
+        placedNPCs: apply(state.config.placedNPCs, transform.npc),
+        placedSocials: apply(state.config.placedSocials, transform.social),
+      }
+    };
+  });
+}
+
+/** Horizontal center of group selection (from entity positions) */
+function getGroupCenterX(): number | null {
+  const { config, selectedEntities: entities } = get(builderState);
+  if (!config) return null;
+  
+  const ids = new Set(entities.map(entity => entity.id));
+  const xs = [
+    ...(config.placedItems ?? []),
+    ...(config.placedNPCs ?? []),
+    ...(config.placedSocials ?? []),
+  ].filter(entity => ids.has(entity.id)).map(entity => entity.x);
+  
+  if (xs.length === 0) return null;
+  return (Math.min(...xs) + Math.max(...xs)) / 2;
+}
+
+/**
+ * Limit move of group selection so all members stay inside the world and above the ground
+ * (members already outside are not moved further out)
+ */
+function clampGroupDelta(dx: number, dy: number): { dx: number; dy: number } {
+  const { config, selectedEntities: entities } = get(builderState);
+  if (!config) return { dx, dy };
+  
+  const groundY = getGroundY(config.worldHeight, resolveSceneBackground(config.background).groundHeight);
+  const ids = new Set(entities.map(entity => entity.id));
+  const positions = [
+    // Items are positioned relative to ground
+    ...(config.placedItems ?? []).map(item => ({ id: item.id, x: item.x, y: groundY + (item.yOffset ?? 0) })),
+    ...(config.placedNPCs ?? []),
+    ...(config.placedSocials ?? []),
+  ].filter(entity => ids.has(entity.id));
+  
+  for (const { x, y } of positions) {
+    dx = Math.min(Math.max(dx, Math.min(0, -x)), Math.max(0, config.worldWidth - x));
+    dy = Math.min(Math.max(dy, Math.min(0, -y)), Math.max(0, groundY - y));
+  }
+  return { dx, dy };
+}
+
+function clampGroupScale(scale: number): number {
+  return Math.min(MAX_GROUP_ENTITY_SCALE, Math.max(MIN_GROUP_ENTITY_SCALE, scale));
+}
+
+/** Move all entities in group selection by a world offset (clamped to world bounds and ground) */
+export function moveGroupSelection(deltaX: number, deltaY: number): void {
+  const { dx, dy } = clampGroupDelta(Math.round(deltaX), Math.round(deltaY));
+  if (dx === 0 && dy === 0) return;
+  
+  transformGroupSelection({
+    // Items are positioned relative to ground (same as ItemDragController)
+    item: item => ({ ...item, x: item.x + dx, yOffset: (item.yOffset ?? 0) + dy }),
+    npc: npc => ({ ...npc, x: npc.x + dx, y: npc.y + dy }),
+    social: social => ({ ...social, x: social.x + dx, y: social.y + dy }),
+  });
+}
+
+/**
+ * Mirror group selection horizontally around its center
+ * Items and NPCs are also flipped (socials have no flip)
+ */
+export function flipGroupSelection(): void {
+  const centerX = getGroupCenterX();
+  if (centerX === null) return;
+  
+  const mirrorX = (x: number) => Math.round(2 * centerX - x);
+  transformGroupSelection({
+    item: item => ({ ...item, x: mirrorX(item.x), flipX: !item.flipX }),
+    npc: npc => ({ ...npc, x: mirrorX(npc.x), flipX: !npc.flipX }),
+    social: social => ({ ...social, x: mirrorX(social.x) }),
+  });
+}
+
+/**
+ * Scale group selection by a factor
+ * Entity sizes and horizontal spacing are scaled around the group center,
+ * vertical positions are kept so entities stay on the ground
+ */
+export function scaleGroupSelection(factor: number): void {
+  const centerX = getGroupCenterX();
+  if (centerX === null) return;
+  
+  const scaleX = (x: number) => Math.round(centerX + (x - centerX) * factor);
+  transformGroupSelection({
+    item: item => ({ ...item, x: scaleX(item.x), scale: clampGroupScale((item.scale ?? 1) * factor) }),
+    npc: npc => ({
+      ...npc,
+      x: scaleX(npc.x),
+      scale: clampGroupScale((npc.scale ?? getNPCDefinition(npc.npcId)?.scale ?? 1) * factor),
+    }),
+    social: social => ({
+      ...social,
+      x: scaleX(social.x),
+      scale: clampGroupScale((social.scale ?? DEFAULT_SOCIAL_SCALE) * factor),
+    }),
+  });
+}
+
+/** Delete all entities in group selection */
+export function deleteGroupSelection(): void {
+  builderState.update(state => {
+    if (!state.config || state.selectedEntities.length === 0) return state;
+    
+    const ids = new Set(state.selectedEntities.map(entity => entity.id));
+    return {
+      ...state,
+      config: {
+        ...state.config,
+        placedItems: state.config.placedItems?.filter(item => !ids.has(item.id)),
+        placedNPCs: state.config.placedNPCs?.filter(npc => !ids.has(npc.id)),
+        placedSocials: state.config.placedSocials?.filter(social => !ids.has(social.id)),
+      },
+      selectedEntities: [],
+    };
+  });
+}
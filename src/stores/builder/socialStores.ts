@@ -90,8 +90,9 @@ export function selectSocial(id: string | null): void {
   builderState.update(state => ({
     ...state,
     selectedSocialId: id,
-    // Deselect player and items when selecting a social
+    // Deselect player, items and group when selecting a social
     isPlayerSelected: id ? false : state.isPlayerSelected,
-    selectedItemId: id ? null : state.selectedItemId
+    selectedItemId: id ? null : state.selectedItemId,
+    selectedEntities: id ? [] : state.selectedEntities
   }));
 }
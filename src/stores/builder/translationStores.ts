@@ -0,0 +1,46 @@
+/**
+ * Builder Translation Stores
+ * Translation state of the edited scene and import of translation files
+ */
+import { derived, get } from 'svelte/store';
+import {
+  applyTranslations,
+  getTranslationSourceLanguage,
+  type TranslationImportReport,
+} from '../../data/translations';
+import type { TranslationFileData } from '../../utils/translationFile';
+import { builderState } from './builderState';
+
+// ==================== Derived Stores ====================
+
+/** Source language of translations of the edited scene (first scene language) */
+export const translationSourceLanguage = derived(builderState, $state =>
+  $state.config ? getTranslationSourceLanguage($state.config) : null
+);
+
+// ==================== Actions ====================
+
+/**
+ * Apply translations from a file to the edited scene
+ * Throws error if the file was made for another source language
+ */
+export function importSceneTranslations(data: TranslationFileData): TranslationImportReport {
+  const config = get(builderState).config;
+  if (!config) {
+    throw new Error('No scene is being edited');
+  }
+
+  const sourceLanguage = getTranslationSourceLanguage(config);
+  if (data.sourceLanguage !== null && data.sourceLanguage !== sourceLanguage) {
+    throw new Error(`File translates from ${data.sourceLanguage}, scene texts are in ${sourceLanguage}`);
+  }
+  if (data.targetLanguage === sourceLanguage) {
+    throw new Error(`File translates into ${sourceLanguage}, the source language of the scene`);
+  }
+
+  const result = applyTranslations(config, data.entries, sourceLanguage, data.targetLanguage);
+  if (result.config !== config) {
+    builderState.update(state => ({ ...state, config: result.config }));
+  }
+  return result.report;
+}
@@ -2,9 +2,11 @@
  * Dialog State Stores
  * Shared dialog state
  */
-import { writable, derived } from 'svelte/store';
-import type { DialogZone, LocalizedText } from '../types/DialogTypes';
-import { getZoneText } from '../types/DialogTypes';
+import { writable, derived, get } from 'svelte/store';
+import type { DialogTree, DialogZone } from '../types/DialogTypes';
+import { getZoneText, getLocalizedText } from '../types/DialogTypes';
+import { getDialogNode } from '../data/dialogTree';
+import { stripRichText } from '../utils/richText';
 import { currentLanguage } from './uiStores';
 
 // ==================== Dialog System Stores ====================
@@ -31,28 +33,67 @@ export function setActiveDialogZone(zone: DialogZone | null): void {
 /** NPC dialog data with screen position */
 export interface ActiveNPCDialog {
   npcId: string;
-  texts: LocalizedText[];
+  dialog: DialogTree;
   screenX: number;
   screenY: number;
   npcHeight: number;
 }
 
+/** Player choice of the shown node with label in current language */
+export interface ActiveNPCDialogChoice {
+  id: string;
+  label: string;
+}
+
 /** Currently active NPC dialog (player is near NPC) */
 export const activeNPCDialog = writable<ActiveNPCDialog | null>(null);
 
+/**
+ * Node of the active conversation that is shown
+ * null when the conversation ended (starts again when player comes back)
+ */
+export const activeNPCDialogNodeId = writable<string | null>(null);
+
+/** Shown node of the active conversation */
+export const activeNPCDialogNode = derived(
+  [activeNPCDialog, activeNPCDialogNodeId],
+  ([$npcDialog, $nodeId]) => {
+    if (!$npcDialog) return null;
+    return getDialogNode($npcDialog.dialog, $nodeId) ?? null;
+  }
+);
+
 /** Active NPC dialog text based on current language */
 export const activeNPCDialogText = derived(
-  [activeNPCDialog, currentLanguage],
-  ([$npcDialog, $lang]) => {
-    if (!$npcDialog) return null;
-    const text = $npcDialog.texts.find(t => t.language === $lang);
-    return text ?? $npcDialog.texts[0] ?? null;
+  [activeNPCDialogNode, currentLanguage],
+  ([$node, $lang]) => {
+    if (!$node) return null;
+    return getLocalizedText($node.texts, $lang);
   }
 );
 
-/** Set active NPC dialog (called from GameScene) */
+/** Player choices of the shown node (choices without label are hidden) */
+export const activeNPCDialogChoices = derived(
+  [activeNPCDialogNode, currentLanguage],
+  ([$node, $lang]): ActiveNPCDialogChoice[] => {
+    if (!$node) return [];
+    return $node.choices
+      .map(choice => ({ id: choice.id, label: stripRichText(getLocalizedText(choice.texts, $lang)?.content ?? '').trim() }))
+      .filter(choice => choice.label !== '');
+  }
+);
+
+/**
+ * Set active NPC dialog (called from GameScene)
+ * Conversation starts from its start node when another NPC becomes active
+ */
 export function setActiveNPCDialog(dialog: ActiveNPCDialog | null): void {
+  const previous = get(activeNPCDialog);
   activeNPCDialog.set(dialog);
+
+  if (dialog?.npcId !== previous?.npcId) {
+    activeNPCDialogNodeId.set(dialog ? dialog.dialog.startNodeId : null);
+  }
 }
 
 /** Update NPC dialog screen position (called each frame when NPC dialog is active) */
@@ -62,3 +103,35 @@ export function updateActiveNPCDialogPosition(screenX: number, screenY: number):
     return { ...current, screenX, screenY };
   });
 }
+
+/** Pick player choice in the shown node */
+export function chooseNPCDialogChoice(choiceId: string): void {
+  const choice = get(activeNPCDialogNode)?.choices.find(c => c.id === choiceId);
+  if (!choice) return;
+  activeNPCDialogNodeId.set(choice.nextNodeId);
+}
+
+/** Continue to the next page of the shown node (ends the conversation at end node) */
+export function continueNPCDialog(): void {
+  const node = get(activeNPCDialogNode);
+  if (!node) return;
+  activeNPCDialogNodeId.set(node.nextNodeId);
+}
+
+// ==================== Interact Prompt ====================
+
+/** Prompt for the interact key above a zone or NPC (interact trigger mode) */
+export interface InteractPrompt {
+  targetId: string;
+  kind: 'zone' | 'npc';
+  screenX: number;
+  screenY: number;   // Top of the target, prompt sits above it
+}
+
+/** Shown interact prompt (null when no target waits for the interact key) */
+export const interactPrompt = writable<InteractPrompt | null>(null);
+
+/** Set interact prompt (called from GameScene) */
+export function setInteractPrompt(prompt: InteractPrompt | null): void {
+  interactPrompt.set(prompt);
+}
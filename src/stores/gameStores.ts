@@ -3,15 +3,49 @@
  * Game specific state like camera, world dimensions, etc.
  */
 import { writable } from 'svelte/store';
+import { DEFAULT_GAME_FRAME_COLOR } from '../constants/colors';
+import { LANGUAGES, type LanguageDefinition } from '../types/Language';
 
 // ==================== Game Frame ====================
 
 /** Current game frame border color */
-export const gameFrameColor = writable<string>('#2a1a0a');
+export const gameFrameColor = writable<string>(DEFAULT_GAME_FRAME_COLOR);
 
 /** Whether the game frame is visible */
 export const gameFrameVisible = writable<boolean>(true);
 
+// ==================== Game Languages ====================
+
+/** Languages offered by the language picker (set when a scene loads) */
+export const gameLanguages = writable<LanguageDefinition[]>(LANGUAGES);
+
+// ==================== Input Device ====================
+
+/** Device of the last player input */
+export type InputDevice = 'keyboard' | 'touch' | 'gamepad';
+
+/** Device the player used last (interact prompt shows its button) */
+export const lastInputDevice = writable<InputDevice>('keyboard');
+
+// ==================== Inventory ====================
+
+/** Collectible items of the current scene */
+export interface SceneInventory {
+  collectedIds: string[];
+  total: number;
+}
+
+/** Inventory of the current scene (set when a scene loads, shown by the HUD counter) */
+export const sceneInventory = writable<SceneInventory>({ collectedIds: [], total: 0 });
+
+/** Add a collected item to the inventory */
+export function addCollectedItem(id: string): void {
+  sceneInventory.update(inventory => inventory.collectedIds.includes(id)
+    ? inventory
+    : { ...inventory, collectedIds: [...inventory.collectedIds, id] }
+  );
+}
+
 // ==================== Player Screen Position ====================
 
 /** Player's screen position (for UI positioning like dialog bubbles) */
@@ -1,4 +1,5 @@
 export * from './uiStores';
 export * from './gameStores';
 export * from './dialogStores';
+export * from './sceneStores';
 export * from './utils';
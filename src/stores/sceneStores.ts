@@ -0,0 +1,230 @@
+/**
+ * Scene Library Stores
+ * Named scenes of the user and the scene shown in game
+ *
+ * Rename, delete and save update the library right away and roll back
+ * if the repository rejects the change.
+ */
+import { writable, get } from 'svelte/store';
+import { DEFAULT_SCENE_ID, loadMapConfig } from '../data/mapConfig';
+import {
+  getSceneRepository,
+  getLoadedSceneVersion,
+  setLoadedSceneVersion,
+  forgetLoadedSceneVersion,
+  SceneConflictError,
+  type SceneSummary,
+} from '../data/repositories';
+import { getPreferences, updatePreferences } from '../data/preferences';
+import { clearBuilderDraft } from '../data/DraftStorage';
+import { handleError, createError, ERROR_CODES } from '../utils/errorHandler';
+import { builderState, removeEmptyDialogZones } from './builder/builderState';
+
+// ==================== Stores ====================
+
+/** Scenes in the library (without configs) */
+export const sceneLibrary = writable<SceneSummary[]>([]);
+
+/** ID of the scene shown in game (initialized from preferences in main.ts) */
+export const currentSceneId = writable<string>(DEFAULT_SCENE_ID);
+
+/** Whether a library operation is running (disables scene manager buttons) */
+export const isSceneLibraryBusy = writable<boolean>(false);
+
+// ==================== Helpers ====================
+
+/**
+ * Run a repository operation and report failure
+ * @param rollback - Reverts optimistic changes when the operation fails
+ * @returns Operation result or null if it failed
+ */
+async function runSceneOperation<T>(
+  message: string,
+  sceneId: string | null,
+  operation: () => Promise<T>,
+  rollback?: () => void
+): Promise<T | null> {
+  isSceneLibraryBusy.set(true);
+  try {
+    return await operation();
+  } catch (error) {
+    rollback?.();
+    handleError(createError(
+      ERROR_CODES.SCENE_STORAGE_FAILED,
+      message,
+      'error',
+      { sceneId },
+      error instanceof Error ? error : new Error(String(error))
+    ));
+    return null;
+  } finally {
+    isSceneLibraryBusy.set(false);
+  }
+}
+
+/** Replace scene in library store */
+function updateLibraryScene(sceneId: string, changes: Partial<SceneSummary>): void {
+  sceneLibrary.update(scenes => scenes.map(scene => scene.id === sceneId ? { ...scene, ...changes } : scene));
+}
+
+// ==================== Actions - Library ====================
+
+/** Set scene shown in game (remembered in preferences) */
+export function setCurrentSceneId(sceneId: string): void {
+  currentSceneId.set(sceneId);
+  updatePreferences({ lastOpenedSceneId: sceneId });
+}
+
+/**
+ * Pick scene shown in game on startup (called in main.ts after preferences are loaded)
+ * Last opened scene if it still exists, otherwise the first one in the library.
+ * Empty library (new account on the server) gets a copy of the bundled scene.
+ */
+export async function initCurrentScene(): Promise<void> {
+  const lastOpenedSceneId = getPreferences().lastOpenedSceneId ?? DEFAULT_SCENE_ID;
+  currentSceneId.set(lastOpenedSceneId);
+
+  await runSceneOperation('Failed to load scene library', null, async () => {
+    let scenes = await getSceneRepository().list();
+    if (scenes.length === 0) {
+      await getSceneRepository().create('Default scene', await loadMapConfig());
+      scenes = await getSceneRepository().list();
+    }
+    sceneLibrary.set(scenes);
+
+    if (scenes.length > 0 && !scenes.some(scene => scene.id === lastOpenedSceneId)) {
+      currentSceneId.set(scenes[0].id);
+    }
+  });
+}
+
+/** Reload scene list from repository */
+export async function refreshSceneLibrary(): Promise<void> {
+  const scenes = await runSceneOperation('Failed to load scene library', null, () => getSceneRepository().list());
+  if (scenes) {
+    sceneLibrary.set(scenes);
+  }
+}
+
+/**
+ * Create a new empty scene
+ * @returns Created scene or null if it failed
+ */
+export async function createScene(name: string): Promise<SceneSummary | null> {
+  const scene = await runSceneOperation(`Failed to create scene "${name}"`, null, () => getSceneRepository().create(name));
+  await refreshSceneLibrary();
+  return scene;
+}
+
+/** Rename scene */
+export async function renameScene(sceneId: string, name: string): Promise<void> {
+  const previous = get(sceneLibrary);
+  updateLibraryScene(sceneId, { name });
+
+  const renamed = await runSceneOperation(
+    `Failed to rename scene to "${name}"`,
+    sceneId,
+    () => getSceneRepository().rename(sceneId, name),
+    () => sceneLibrary.set(previous)
+  );
+  if (renamed) {
+    updateLibraryScene(sceneId, renamed);
+    // Rename changes updatedAt, next save of a loaded scene must not see it as a conflict
+    if (getLoadedSceneVersion(sceneId) !== undefined) {
+      setLoadedSceneVersion(sceneId, renamed.updatedAt);
+    }
+  }
+}
+
+/** Copy scene (copy is named after the original) */
+export async function duplicateScene(sceneId: string): Promise<void> {
+  const source = get(sceneLibrary).find(scene => scene.id === sceneId);
+  const name = `${source?.name ?? 'Scene'} (copy)`;
+
+  await runSceneOperation('Failed to duplicate scene', sceneId, () => getSceneRepository().duplicate(sceneId, name));
+  await refreshSceneLibrary();
+}
+
+/**
+ * Delete scene with its unsaved draft
+ * Scene open in builder or shown in game can't be deleted
+ */
+export async function deleteScene(sceneId: string): Promise<void> {
+  if (sceneId === get(builderState).sceneId || sceneId === get(currentSceneId)) {
+    console.warn('Cannot delete scene that is open:', sceneId);
+    return;
+  }
+
+  const previous = get(sceneLibrary);
+  sceneLibrary.set(previous.filter(scene => scene.id !== sceneId));
+
+  await runSceneOperation(
+    'Failed to delete scene',
+    sceneId,
+    async () => {
+      await getSceneRepository().delete(sceneId);
+      clearBuilderDraft(sceneId);
+    },
+    () => sceneLibrary.set(previous)
+  );
+}
+
+// ==================== Actions - Builder ====================
+
+/**
+ * Save builder config to the edited scene
+ * Save is rejected if the scene was changed elsewhere since it was loaded,
+ * unsaved draft of the scene is removed only on success
+ * @returns Whether the scene was saved
+ */
+export async function saveBuilderScene(): Promise<boolean> {
+  const { sceneId, config } = get(builderState);
+  if (!config) return false;
+
+  // Show scene as saved right away
+  const previous = get(sceneLibrary);
+  const previousSceneId = get(currentSceneId);
+  updateLibraryScene(sceneId, { updatedAt: new Date().toISOString() });
+  setCurrentSceneId(sceneId);
+
+  isSceneLibraryBusy.set(true);
+  try {
+    const saved = await getSceneRepository().save(sceneId, removeEmptyDialogZones(config), {
+      expectedUpdatedAt: getLoadedSceneVersion(sceneId),
+    });
+    setLoadedSceneVersion(sceneId, saved.updatedAt);
+    updateLibraryScene(sceneId, { name: saved.name, updatedAt: saved.updatedAt });
+    clearBuilderDraft(sceneId);
+    return true;
+  } catch (error) {
+    sceneLibrary.set(previous);
+    if (previousSceneId !== sceneId) setCurrentSceneId(previousSceneId);
+
+    if (error instanceof SceneConflictError) {
+      // Newer version becomes the base, so saving again overwrites it
+      if (error.current) {
+        setLoadedSceneVersion(sceneId, error.current.updatedAt);
+      } else {
+        forgetLoadedSceneVersion(sceneId);
+      }
+      handleError(createError(
+        ERROR_CODES.SCENE_CONFLICT,
+        'Scene was changed elsewhere. Your changes were kept as draft, save again to overwrite the other version.',
+        'error',
+        { sceneId, updatedAt: error.current?.updatedAt },
+        error
+      ));
+    } else {
+      handleError(createError(
+        ERROR_CODES.SCENE_STORAGE_FAILED,
+        'Failed to save scene. Your changes were kept as draft.',
+        'error',
+        { sceneId },
+        error instanceof Error ? error : new Error(String(error))
+      ));
+    }
+    return false;
+  } finally {
+    isSceneLibraryBusy.set(false);
+  }
+}
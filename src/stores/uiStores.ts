@@ -2,18 +2,27 @@
  * UI State Stores
  * Shared UI state between Phaser game and Svelte components
  */
-import { writable } from 'svelte/store';
+import { derived, writable } from 'svelte/store';
 import { DEFAULT_LANGUAGE, type Language } from '../types/Language';
+import { translate, type MessageKey, type MessageParams } from '../data/messages';
 
 // ==================== General UI ====================
 
-/** Current language (cs/en) */
-export const currentLanguage = writable<'cs' | 'en'>('cs');
+/** Current language of game texts */
+export const currentLanguage = writable<Language>(DEFAULT_LANGUAGE);
+
+/**
+ * UI message lookup in the current language
+ * Usage: $t('builder.save'), $t('translations.stale', { count })
+ */
+export const t = derived(currentLanguage, $language =>
+  (key: MessageKey, params?: MessageParams) => translate($language, key, params)
+);
 
 /** Current player skin ID */
 export const currentSkin = writable<string>('succubus');
 
-/** Current background name */
+/** Name of the background shown in game (set when a scene loads) */
 export const currentBackground = writable<string>('Forest');
 
 /** Whether user has selected a background (shown after page refresh) */
@@ -56,6 +65,15 @@ export const isSocialPanelOpen = writable<boolean>(false);
 /** Whether dialog zone panel is open */
 export const isDialogZonePanelOpen = writable<boolean>(false);
 
+/** Whether scene manager panel is open */
+export const isSceneManagerOpen = writable<boolean>(false);
+
+/** Whether scene settings panel (background, ground, frame color) is open */
+export const isSceneSettingsOpen = writable<boolean>(false);
+
+/** Whether translation panel (export and import of translation files) is open */
+export const isTranslationPanelOpen = writable<boolean>(false);
+
 /** Language used for previewing text in builder mode */
 export const builderPreviewLanguage = writable<Language>(DEFAULT_LANGUAGE);
 
@@ -106,6 +124,36 @@ export function closeDialogZonePanel(): void {
   isDialogZonePanelOpen.set(false);
 }
 
+/** Toggle scene manager panel */
+export function toggleSceneManager(): void {
+  isSceneManagerOpen.update(open => !open);
+}
+
+/** Close scene manager panel */
+export function closeSceneManager(): void {
+  isSceneManagerOpen.set(false);
+}
+
+/** Toggle scene settings panel */
+export function toggleSceneSettings(): void {
+  isSceneSettingsOpen.update(open => !open);
+}
+
+/** Close scene settings panel */
+export function closeSceneSettings(): void {
+  isSceneSettingsOpen.set(false);
+}
+
+/** Toggle translation panel */
+export function toggleTranslationPanel(): void {
+  isTranslationPanelOpen.update(open => !open);
+}
+
+/** Close translation panel */
+export function closeTranslationPanel(): void {
+  isTranslationPanelOpen.set(false);
+}
+
 /** Set the builder preview language */
 export function setBuilderPreviewLanguage(lang: Language): void {
   builderPreviewLanguage.set(lang);
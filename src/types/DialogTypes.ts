@@ -1,27 +1,120 @@
 /**
  * Dialog System Types
- * Types for dialog trigger zones and localized text content
+ * Types for dialog trigger zones, NPC dialog trees and localized text content
  */
 
+import { DEFAULT_LANGUAGE, getLanguageFallbackChain, type Language } from './Language';
+import type { MessageKey } from '../data/messages';
+
 /**
  * Localized text for a single language
  */
 export interface LocalizedText {
-  language: string;  // 'cs', 'en', or custom
+  language: Language;  // 'cs', 'en', or any other code
   title: string;     // Bold heading
   content: string;   // Main text content
+  sourceHash?: string; // Hash of the source text this translation was imported for (see data/translations.ts)
 }
 
+/**
+ * When dialog of a zone or NPC is shown
+ * - enter: whenever the player is in range
+ * - interact: after the player presses the interact key in range (prompt is shown)
+ * - once: on the first enter in a session only
+ * - cooldown: on enter, again only after cooldownSeconds since it was closed
+ */
+export type DialogTriggerMode = 'enter' | 'interact' | 'once' | 'cooldown';
+
+/**
+ * Trigger settings of a zone or NPC (missing trigger = default of the scene, see DialogInteraction)
+ */
+export interface DialogTrigger {
+  mode: DialogTriggerMode;
+  cooldownSeconds?: number;    // Used by cooldown mode (default: DEFAULT_TRIGGER_COOLDOWN_SECONDS)
+}
+
+/** Trigger used when zone or NPC has none (in scenes with auto interaction) */
+export const DEFAULT_DIALOG_TRIGGER: DialogTrigger = { mode: 'enter' };
+
+/**
+ * How dialogs of a scene open when zones and NPCs have no own trigger
+ * - auto: when the player comes in range
+ * - press: when the player presses interact (E, tap on the prompt, gamepad A)
+ */
+export type DialogInteraction = 'auto' | 'press';
+
+/** Interaction of scenes without one */
+export const DEFAULT_DIALOG_INTERACTION: DialogInteraction = 'auto';
+
+/**
+ * Get trigger of zones and NPCs without one
+ */
+export function getDefaultDialogTrigger(interaction: DialogInteraction | undefined): DialogTrigger {
+  return interaction === 'press' ? { mode: 'interact' } : DEFAULT_DIALOG_TRIGGER;
+}
+
+/** Default wait before dialog in cooldown mode shows again */
+export const DEFAULT_TRIGGER_COOLDOWN_SECONDS = 30;
+
+/**
+ * Trigger modes offered in editor panels
+ */
+export const DIALOG_TRIGGER_MODES: { mode: DialogTriggerMode; labelKey: MessageKey }[] = [
+  { mode: 'enter', labelKey: 'trigger.enter' },
+  { mode: 'interact', labelKey: 'trigger.interact' },
+  { mode: 'once', labelKey: 'trigger.once' },
+  { mode: 'cooldown', labelKey: 'trigger.cooldown' },
+];
+
+/** Priority of zones without one */
+export const DEFAULT_ZONE_PRIORITY = 0;
+
 /**
  * Dialog trigger zone
  * Invisible area that triggers dialog display when player enters
+ * Zone without y/height spans the whole world height. Zones may overlap,
+ * only the winning one is shown (see sortZonesByPriority in utils/dialogZoneLayout.ts)
  */
 export interface DialogZone {
   id: string;
   x: number;           // Left edge of zone
   width: number;       // Zone width (resizable in editor)
+  y?: number;          // Top edge of zone (set together with height)
+  height?: number;     // Zone height
+  groundOnly?: boolean; // Triggers only while player stands on the ground (not on items or in the air)
+  priority?: number;   // Overlapping zones: higher priority is shown (default 0)
   color: string;       // Hex color for editor visualization
   texts: LocalizedText[];
+  trigger?: DialogTrigger;
+}
+
+/**
+ * Player choice in an NPC dialog node
+ */
+export interface DialogChoice {
+  id: string;
+  texts: LocalizedText[];      // Button label per language (content is used)
+  nextNodeId: string | null;   // Node shown after the choice (null = conversation ends)
+}
+
+/**
+ * Single page of an NPC conversation
+ * Node with choices waits for the player to pick one, node without choices
+ * continues to nextNodeId or ends the conversation
+ */
+export interface DialogNode {
+  id: string;
+  texts: LocalizedText[];
+  choices: DialogChoice[];
+  nextNodeId: string | null;   // Next page when there are no choices (null = end node)
+}
+
+/**
+ * Branching NPC conversation
+ */
+export interface DialogTree {
+  startNodeId: string;
+  nodes: DialogNode[];
 }
 
 /**
@@ -63,7 +156,7 @@ export function createDialogZone(x: number, width: number = 300): DialogZone {
     color: generateZoneColor(),
     texts: [
       {
-        language: 'cs',
+        language: DEFAULT_LANGUAGE,
         title: '', // Kept for backwards compatibility but not used in UI
         content: '',
       }
@@ -73,12 +166,25 @@ export function createDialogZone(x: number, width: number = 300): DialogZone {
 
 /**
  * Get text for specific language with fallback
+ * Languages of the fallback chain are tried in order (texts without content
+ * count as missing), then the first text with content
  */
-export function getZoneText(zone: DialogZone, language: string): LocalizedText | null {
-  // Try exact match
-  const exact = zone.texts.find(t => t.language === language);
-  if (exact) return exact;
+export function getLocalizedText(texts: LocalizedText[], language: Language): LocalizedText | null {
+  const hasContent = (text: LocalizedText | undefined): text is LocalizedText =>
+    typeof text?.content === 'string' && text.content.trim() !== '';
+  
+  for (const code of getLanguageFallbackChain(language)) {
+    const text = texts.find(t => t.language === code);
+    if (hasContent(text)) return text;
+  }
   
   // Fallback to first available
-  return zone.texts[0] || null;
+  return texts.find(hasContent) ?? texts[0] ?? null;
+}
+
+/**
+ * Get zone text for specific language with fallback
+ */
+export function getZoneText(zone: DialogZone, language: Language): LocalizedText | null {
+  return getLocalizedText(zone.texts, language);
 }
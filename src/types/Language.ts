@@ -1,26 +1,84 @@
 /**
- * Language type for localization
+ * Language code for localization (ISO 639-1, optionally with region, e.g. 'cs', 'pt-BR')
+ * Any code is allowed, LANGUAGES only lists the known ones
  */
-export type Language = 'cs' | 'en';
+export type Language = string;
 
 /**
- * Language definition with code and display label
+ * Language definition with code and display labels
  */
 export interface LanguageDefinition {
   code: Language;
+  /** Short label for tabs and buttons */
   label: string;
+  /** Name in the language itself (language picker) */
+  name: string;
+  /** Languages tried when a text is missing, before DEFAULT_LANGUAGE */
+  fallbacks?: Language[];
 }
 
 /**
- * Available languages in the application
- * Single source of truth for all language-related UI
+ * Known languages in the application
+ * Single source of truth for all language-related UI, scenes can offer a
+ * subset or add other codes (MapConfig.languages)
  */
 export const LANGUAGES: LanguageDefinition[] = [
-  { code: 'cs', label: 'CZ' },
-  { code: 'en', label: 'EN' },
+  { code: 'cs', label: 'CZ', name: 'Čeština' },
+  { code: 'en', label: 'EN', name: 'English' },
+  { code: 'de', label: 'DE', name: 'Deutsch', fallbacks: ['en'] },
+  { code: 'sk', label: 'SK', name: 'Slovenčina', fallbacks: ['cs'] },
+  { code: 'pl', label: 'PL', name: 'Polski', fallbacks: ['en'] },
+  { code: 'fr', label: 'FR', name: 'Français', fallbacks: ['en'] },
+  { code: 'es', label: 'ES', name: 'Español', fallbacks: ['en'] },
 ];
 
 /**
  * Default language code
  */
 export const DEFAULT_LANGUAGE: Language = 'cs';
+
+/**
+ * Check if string looks like a language code ('de', 'pt-BR', 'zh-Hant')
+ */
+export function isValidLanguageCode(code: unknown): code is Language {
+  return typeof code === 'string' && /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(code);
+}
+
+/**
+ * Get definition of a language (unknown codes get a generated one)
+ */
+export function getLanguageDefinition(code: Language): LanguageDefinition {
+  return LANGUAGES.find(lang => lang.code === code) ?? { code, label: code.toUpperCase(), name: code };
+}
+
+/**
+ * Get languages offered by a scene
+ * @param codes - Language codes from scene config (all known languages if not set)
+ */
+export function getSceneLanguages(codes: Language[] | undefined): LanguageDefinition[] {
+  const valid = Array.isArray(codes) ? codes.filter(isValidLanguageCode) : [];
+  if (valid.length === 0) return LANGUAGES;
+  return [...new Set(valid)].map(getLanguageDefinition);
+}
+
+/**
+ * Get languages tried in order when looking up a text
+ * Language itself, its base language ('pt' for 'pt-BR'), its fallbacks
+ * (recursively) and DEFAULT_LANGUAGE last
+ */
+export function getLanguageFallbackChain(language: Language): Language[] {
+  const chain: Language[] = [];
+
+  const visit = (code: Language) => {
+    if (chain.includes(code)) return;
+    chain.push(code);
+
+    const base = code.split('-')[0];
+    if (base !== code) visit(base);
+    getLanguageDefinition(code).fallbacks?.forEach(visit);
+  };
+
+  visit(language);
+  if (!chain.includes(DEFAULT_LANGUAGE)) chain.push(DEFAULT_LANGUAGE);
+  return chain;
+}
@@ -0,0 +1,239 @@
+/**
+ * NPC Behavior Types
+ * Movement of placed NPCs in the game (builder shows them at their placed position)
+ */
+
+import type { MessageKey } from '../data/messages';
+
+/**
+ * How a patrol continues after the last waypoint
+ * - loop: straight back to the placed position and around again
+ * - pingpong: the same way back through the waypoints
+ */
+export type NPCPatrolMode = 'loop' | 'pingpong';
+
+/**
+ * Point of a patrol path
+ * Offset from the placed position of the NPC, so the path moves with the NPC
+ */
+export interface NPCWaypoint {
+  offsetX: number;
+  offsetY: number;
+  waitSeconds?: number;        // Wait at this point (default: wait of the patrol)
+}
+
+/**
+ * Patrol path, the NPC walks from its placed position through the waypoints
+ */
+export interface NPCPatrol {
+  waypoints: NPCWaypoint[];
+  speed?: number;              // Pixels per second (default: DEFAULT_PATROL_SPEED)
+  waitSeconds?: number;        // Wait at points without own wait (default: DEFAULT_PATROL_WAIT_SECONDS)
+  mode?: NPCPatrolMode;        // Default: DEFAULT_PATROL_MODE
+}
+
+/**
+ * Wandering to random points around the placed position
+ */
+export interface NPCWander {
+  rangeX?: number;             // Max horizontal distance from placed position (default: DEFAULT_WANDER_RANGE_X)
+  rangeY?: number;             // Max vertical distance from placed position (default: 0, stays on its line)
+  speed?: number;              // Pixels per second (default: DEFAULT_WANDER_SPEED)
+  waitSeconds?: number;        // Wait at each point (default: DEFAULT_WANDER_WAIT_SECONDS)
+}
+
+/**
+ * Following the player horizontally (NPC keeps its height)
+ */
+export interface NPCFollow {
+  distance?: number;           // Stops this far from the player (default: DEFAULT_FOLLOW_DISTANCE)
+  speed?: number;              // Pixels per second (default: DEFAULT_FOLLOW_SPEED)
+}
+
+/**
+ * States of the NPC state machine (see entities/npc/npcStateRegistry.ts)
+ * - idle: stands still
+ * - patrol: walks the patrol path
+ * - wander: walks to random points around the placed position
+ * - facePlayer: stands still and turns to the player
+ * - talk: turns to the player and plays the interact animation
+ * - follow: walks after the player
+ */
+export type NPCStateType = 'idle' | 'patrol' | 'wander' | 'facePlayer' | 'talk' | 'follow';
+
+/**
+ * Conditions of state transitions
+ * - playerNear / playerFar: player is within / outside of radius
+ * - dialogOpen / dialogClosed: dialog of this NPC is shown / not shown
+ */
+export type NPCConditionType = 'playerNear' | 'playerFar' | 'dialogOpen' | 'dialogClosed';
+
+/**
+ * Switch to another state when a condition is met
+ */
+export interface NPCTransition {
+  from?: NPCStateType;         // Only from this state (default: from any state)
+  to: NPCStateType;
+  condition: NPCConditionType;
+  radius?: number;             // For playerNear and playerFar (default: trigger radius of the NPC)
+}
+
+/**
+ * Behavior of a placed NPC (missing behavior = NPC stands idle)
+ * Transitions are checked every frame in order, the first met one is taken.
+ * Without a dialogOpen transition the NPC talks while its dialog is shown
+ * and then resumes its state.
+ */
+export interface NPCBehavior {
+  initialState?: NPCStateType; // Default: patrol with waypoints, otherwise idle
+  transitions?: NPCTransition[];
+  patrol?: NPCPatrol;
+  wander?: NPCWander;
+  follow?: NPCFollow;
+}
+
+/** Walking speed of patrols without one */
+export const DEFAULT_PATROL_SPEED = 60;
+
+/** Wait at patrol points without one */
+export const DEFAULT_PATROL_WAIT_SECONDS = 1;
+
+/** Mode of patrols without one */
+export const DEFAULT_PATROL_MODE: NPCPatrolMode = 'pingpong';
+
+/** Distance of a new waypoint from the previous point */
+export const NEW_WAYPOINT_DISTANCE = 150;
+
+export const DEFAULT_WANDER_RANGE_X = 150;
+export const DEFAULT_WANDER_SPEED = 40;
+export const DEFAULT_WANDER_WAIT_SECONDS = 2;
+
+export const DEFAULT_FOLLOW_DISTANCE = 80;
+export const DEFAULT_FOLLOW_SPEED = 90;
+
+/**
+ * Patrol modes offered in editor panels
+ */
+export const NPC_PATROL_MODES: { mode: NPCPatrolMode; labelKey: MessageKey }[] = [
+  { mode: 'pingpong', labelKey: 'behavior.patrolPingpong' },
+  { mode: 'loop', labelKey: 'behavior.patrolLoop' },
+];
+
+/**
+ * States offered in editor panels
+ */
+export const NPC_STATE_TYPES: { type: NPCStateType; labelKey: MessageKey }[] = [
+  { type: 'idle', labelKey: 'behavior.stateIdle' },
+  { type: 'patrol', labelKey: 'behavior.statePatrol' },
+  { type: 'wander', labelKey: 'behavior.stateWander' },
+  { type: 'facePlayer', labelKey: 'behavior.stateFacePlayer' },
+  { type: 'talk', labelKey: 'behavior.stateTalk' },
+  { type: 'follow', labelKey: 'behavior.stateFollow' },
+];
+
+/**
+ * Transition conditions offered in editor panels
+ */
+export const NPC_CONDITION_TYPES: { condition: NPCConditionType; labelKey: MessageKey; usesRadius: boolean }[] = [
+  { condition: 'playerNear', labelKey: 'behavior.conditionPlayerNear', usesRadius: true },
+  { condition: 'playerFar', labelKey: 'behavior.conditionPlayerFar', usesRadius: true },
+  { condition: 'dialogOpen', labelKey: 'behavior.conditionDialogOpen', usesRadius: false },
+  { condition: 'dialogClosed', labelKey: 'behavior.conditionDialogClosed', usesRadius: false },
+];
+
+/**
+ * Get state an NPC starts in
+ */
+export function getInitialNPCState(behavior: NPCBehavior | undefined): NPCStateType {
+  if (behavior?.initialState) return behavior.initialState;
+  return behavior?.patrol?.waypoints.length ? 'patrol' : 'idle';
+}
+
+/**
+ * What an NPC knows about the game when checking transitions
+ */
+export interface NPCBehaviorContext {
+  /** Distance to the player (null before the player exists) */
+  playerDistance: number | null;
+  /** Dialog of the NPC is shown */
+  dialogOpen: boolean;
+  /** Radius of transitions without one */
+  defaultRadius: number;
+}
+
+/**
+ * Check condition of a transition (unknown conditions are never met)
+ */
+export function isNPCConditionMet(transition: NPCTransition, context: NPCBehaviorContext): boolean {
+  const radius = transition.radius ?? context.defaultRadius;
+  switch (transition.condition) {
+    case 'playerNear':
+      return context.playerDistance !== null && context.playerDistance <= radius;
+    case 'playerFar':
+      return context.playerDistance === null || context.playerDistance > radius;
+    case 'dialogOpen':
+      return context.dialogOpen;
+    case 'dialogClosed':
+      return !context.dialogOpen;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Get state the NPC switches to (null = stays in current state)
+ */
+export function getNextNPCState(
+  current: NPCStateType,
+  transitions: NPCTransition[],
+  context: NPCBehaviorContext
+): NPCStateType | null {
+  const transition = transitions.find(transition =>
+    (transition.from === undefined || transition.from === current) &&
+    transition.to !== current &&
+    isNPCConditionMet(transition, context)
+  );
+  return transition?.to ?? null;
+}
+
+/** Point of a patrol path in world coordinates */
+export interface PatrolPoint {
+  x: number;
+  y: number;
+  waitSeconds: number;
+}
+
+/**
+ * Get points of a patrol in world coordinates, placed position first
+ */
+export function getPatrolPoints(patrol: NPCPatrol, originX: number, originY: number): PatrolPoint[] {
+  const defaultWait = patrol.waitSeconds ?? DEFAULT_PATROL_WAIT_SECONDS;
+  return [
+    { x: originX, y: originY, waitSeconds: defaultWait },
+    ...patrol.waypoints.map(waypoint => ({
+      x: originX + waypoint.offsetX,
+      y: originY + waypoint.offsetY,
+      waitSeconds: waypoint.waitSeconds ?? defaultWait,
+    })),
+  ];
+}
+
+/**
+ * Get index of the point visited after a point
+ * @param direction - Current direction of a ping-pong patrol (1 forward, -1 back)
+ */
+export function getNextPatrolIndex(
+  index: number,
+  direction: 1 | -1,
+  pointCount: number,
+  mode: NPCPatrolMode
+): { index: number; direction: 1 | -1 } {
+  if (mode === 'loop') {
+    return { index: (index + 1) % pointCount, direction: 1 };
+  }
+  const next = index + direction;
+  if (next < 0 || next >= pointCount) {
+    return { index: index - direction, direction: direction === 1 ? -1 : 1 };
+  }
+  return { index: next, direction };
+}
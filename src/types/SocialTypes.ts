@@ -3,6 +3,8 @@
  * Types for social media icons that can be placed in the world
  */
 
+import type { MessageKey } from '../data/messages';
+
 /**
  * Placed social icon in the game world
  */
@@ -41,10 +43,10 @@ export type SocialSize = 'S' | 'M' | 'L';
 /**
  * Social size presets with their scale values
  */
-export const SOCIAL_SIZES: Record<SocialSize, { label: string; scale: number }> = {
-  'S': { label: 'Small', scale: 1.5 },
-  'M': { label: 'Medium', scale: 2 },
-  'L': { label: 'Large', scale: 2.5 },
+export const SOCIAL_SIZES: Record<SocialSize, { labelKey: MessageKey; scale: number }> = {
+  'S': { labelKey: 'socialPanel.sizeS', scale: 1.5 },
+  'M': { labelKey: 'socialPanel.sizeM', scale: 2 },
+  'L': { labelKey: 'socialPanel.sizeL', scale: 2.5 },
 } as const;
 
 /**
@@ -0,0 +1,162 @@
+/**
+ * Builder Clipboard - JSON snippets of placed entities for copy/paste
+ * Snippets are plain text on the system clipboard, so content can be moved
+ * between scenes (or browser tabs)
+ */
+
+import {
+  parseMapConfig,
+  PlacedItemFactory,
+  generateNPCId,
+  MAP_CONFIG_VERSION,
+  type MapConfig,
+  type PlacedItem,
+  type PlacedNPC,
+} from '../data/mapConfig';
+import { validateMapConfig, removeInvalidEntities, formatMapConfigIssues } from '../data/mapConfigValidation';
+import { generateSocialId, type PlacedSocial } from '../types/SocialTypes';
+import { generateZoneId, type DialogZone } from '../types/DialogTypes';
+import { hasZoneVerticalBounds } from './dialogZoneLayout';
+
+/** Marks clipboard text as a builder snippet */
+const CLIPBOARD_FORMAT = 'map-builder-entities';
+
+/**
+ * Copied entities (same collections as MapConfig)
+ */
+export interface BuilderClipboardData {
+  placedItems: PlacedItem[];
+  placedNPCs: PlacedNPC[];
+  placedSocials: PlacedSocial[];
+  dialogZones: DialogZone[];
+}
+
+/** Whether clipboard data contains no entities */
+export function isClipboardDataEmpty(data: BuilderClipboardData): boolean {
+  return data.placedItems.length === 0 &&
+    data.placedNPCs.length === 0 &&
+    data.placedSocials.length === 0 &&
+    data.dialogZones.length === 0;
+}
+
+/**
+ * Serialize entities as JSON snippet for the system clipboard
+ * Snippet carries schema version, so it's migrated when pasted into a newer app
+ */
+export function serializeClipboardData(data: BuilderClipboardData): string {
+  return JSON.stringify({ format: CLIPBOARD_FORMAT, version: MAP_CONFIG_VERSION, ...data }, null, 2);
+}
+
+/**
+ * Parse JSON snippet from the system clipboard
+ * Snippet is migrated and validated like a map config, invalid entities are skipped
+ * @param config - Config of the target scene (provides world size for validation)
+ * @returns null if the text is not a builder snippet
+ */
+export function parseClipboardData(text: string, config: MapConfig): BuilderClipboardData | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  if (!data || typeof data !== 'object' || (data as { format?: unknown }).format !== CLIPBOARD_FORMAT) {
+    return null;
+  }
+
+  try {
+    const { format: _format, ...snippet } = data as Record<string, unknown>;
+    const snippetConfig = parseMapConfig({
+      ...snippet,
+      worldWidth: config.worldWidth,
+      worldHeight: config.worldHeight,
+      playerStartX: config.playerStartX,
+      playerStartY: config.playerStartY,
+    });
+
+    const errors = validateMapConfig(snippetConfig).filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+      console.warn(`Skipping invalid pasted entities:\n${formatMapConfigIssues(errors)}`);
+    }
+    const valid = removeInvalidEntities(snippetConfig, errors);
+
+    return {
+      placedItems: valid.placedItems ?? [],
+      placedNPCs: valid.placedNPCs ?? [],
+      placedSocials: valid.placedSocials ?? [],
+      dialogZones: valid.dialogZones ?? [],
+    };
+  } catch (e) {
+    console.warn('Failed to parse pasted entities:', e);
+    return null;
+  }
+}
+
+/**
+ * Center of copied entities in world coordinates
+ * Item Y is relative to ground, dialog zones have no Y (null if only zones are copied)
+ */
+export function getClipboardDataCenter(data: BuilderClipboardData, groundY: number): { x: number; y: number | null } {
+  const points = [
+    ...data.placedItems.map(item => ({ x: item.x, y: groundY + (item.yOffset ?? 0) })),
+    ...data.placedNPCs.map(npc => ({ x: npc.x, y: npc.y })),
+    ...data.placedSocials.map(social => ({ x: social.x, y: social.y })),
+  ];
+  const xs = [...points.map(point => point.x), ...data.dialogZones.map(zone => zone.x + zone.width / 2)];
+  const ys = points.map(point => point.y);
+
+  return {
+    x: xs.length > 0 ? (Math.min(...xs) + Math.max(...xs)) / 2 : 0,
+    y: ys.length > 0 ? (Math.min(...ys) + Math.max(...ys)) / 2 : null,
+  };
+}
+
+/**
+ * Copy entities with fresh IDs, moved by an offset and kept inside the world
+ */
+export function cloneClipboardData(
+  data: BuilderClipboardData,
+  offsetX: number,
+  offsetY: number,
+  config: MapConfig
+): BuilderClipboardData {
+  // Deep copy, so nested dialog texts are not shared with the originals
+  const copy = JSON.parse(JSON.stringify(data)) as BuilderClipboardData;
+  const dx = Math.round(offsetX);
+  const dy = Math.round(offsetY);
+  const clampX = (x: number) => Math.max(0, Math.min(config.worldWidth, x));
+  const clampY = (y: number) => Math.max(0, Math.min(config.worldHeight, y));
+
+  return {
+    placedItems: copy.placedItems.map(item => ({
+      ...PlacedItemFactory.clone(item, 0),
+      x: clampX(item.x + dx),
+      yOffset: (item.yOffset ?? 0) + dy,
+    })),
+    placedNPCs: copy.placedNPCs.map(npc => ({
+      ...npc,
+      id: generateNPCId(),
+      x: clampX(npc.x + dx),
+      y: clampY(npc.y + dy),
+    })),
+    placedSocials: copy.placedSocials.map(social => ({
+      ...social,
+      id: generateSocialId(),
+      x: clampX(social.x + dx),
+      y: clampY(social.y + dy),
+    })),
+    dialogZones: copy.dialogZones.map(zone => {
+      const moved: DialogZone = {
+        ...zone,
+        id: generateZoneId(),
+        x: Math.max(0, Math.min(config.worldWidth - zone.width, zone.x + dx)),
+      };
+      // Zones with vertical bounds move vertically too
+      if (hasZoneVerticalBounds(zone)) {
+        moved.y = Math.max(0, Math.min(config.worldHeight - zone.height, zone.y + dy));
+      }
+      return moved;
+    }),
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Dialog Advance
+ * Routes "advance" input (Space key, click, tap) to the dialog bubble that is shown,
+ * so the input controller can skip the jump when a dialog used the key
+ */
+
+/**
+ * Handler of a shown dialog
+ * @returns Whether the dialog used the input (finished typing, turned page...)
+ */
+export type DialogAdvanceHandler = () => boolean;
+
+interface RegisteredHandler {
+  handler: DialogAdvanceHandler;
+  priority: number;
+}
+
+const handlers: RegisteredHandler[] = [];
+
+/**
+ * Register handler of a shown dialog
+ * @param priority - Handlers with higher priority get the input first
+ * @returns Function that unregisters the handler
+ */
+export function registerDialogAdvanceHandler(handler: DialogAdvanceHandler, priority: number = 0): () => void {
+  const entry: RegisteredHandler = { handler, priority };
+  handlers.push(entry);
+  handlers.sort((a, b) => b.priority - a.priority);
+
+  return () => {
+    const index = handlers.indexOf(entry);
+    if (index !== -1) handlers.splice(index, 1);
+  };
+}
+
+/**
+ * Advance the shown dialog with the highest priority
+ * @returns Whether any dialog used the input
+ */
+export function advanceDialog(): boolean {
+  return handlers.some(({ handler }) => handler());
+}
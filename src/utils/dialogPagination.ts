@@ -0,0 +1,88 @@
+/**
+ * Dialog Pagination
+ * Splits dialog content into pages shown one after another in bubbles
+ */
+
+import { DIALOG_PAGE_MAX_CHARS, DIALOG_PAGE_BREAK } from '../constants/uiConstants';
+import { getRichTextTagLength, getUnclosedRichTextTags, stripRichText } from './richText';
+
+/**
+ * Find where to end a page of text longer than maxChars
+ * Only visible characters are counted, markup tags are never cut
+ */
+function findPageEnd(text: string, maxChars: number): number {
+  let visible = 0;
+  let lastWhitespace = -1;
+  let lastSentenceEnd = -1;
+  let sentenceEndVisible = 0;
+  let index = 0;
+
+  while (index < text.length && visible < maxChars) {
+    const tagLength = getRichTextTagLength(text, index);
+    if (tagLength > 0) {
+      index += tagLength;
+      continue;
+    }
+
+    const char = text[index];
+    if (/\s/.test(char)) {
+      lastWhitespace = index;
+    } else if (/[.!?]/.test(char) && /\s/.test(text[index + 1] ?? '')) {
+      lastSentenceEnd = index + 1;
+      sentenceEndVisible = visible;
+    }
+    visible++;
+    index++;
+  }
+
+  // Prefer end of sentence, then any whitespace within the limit
+  if (lastSentenceEnd > 0 && sentenceEndVisible > maxChars / 2) return lastSentenceEnd;
+  if (lastWhitespace > 0) return lastWhitespace;
+  return index;
+}
+
+/**
+ * Split long text at word boundaries (words longer than the limit are cut)
+ */
+function splitLongText(text: string, maxChars: number): string[] {
+  const pages: string[] = [];
+  let rest = text;
+
+  while (stripRichText(rest).length > maxChars) {
+    const end = findPageEnd(rest, maxChars);
+    pages.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+
+  if (rest) pages.push(rest);
+  return pages;
+}
+
+/**
+ * Split dialog content into pages
+ * Line with only DIALOG_PAGE_BREAK starts a new page, pages longer
+ * than maxChars are split further. Formatting open at the end of a page
+ * continues on the next one.
+ */
+export function paginateDialogText(content: string, maxChars: number = DIALOG_PAGE_MAX_CHARS): string[] {
+  let unclosedTags = '';
+
+  return content
+    .split(/\r?\n/)
+    .reduce<string[][]>((pages, line) => {
+      if (line.trim() === DIALOG_PAGE_BREAK) {
+        pages.push([]);
+      } else {
+        pages[pages.length - 1].push(line);
+      }
+      return pages;
+    }, [[]])
+    .map(lines => lines.join('\n').trim())
+    .filter(page => page.length > 0)
+    .flatMap(page => splitLongText(page, maxChars))
+    .map(page => {
+      const continued = unclosedTags + page;
+      unclosedTags = getUnclosedRichTextTags(continued);
+      return continued;
+    });
+}
@@ -0,0 +1,63 @@
+/**
+ * Dialog zone layout helpers
+ * Zones are rectangles that may overlap, priority decides which one is shown
+ * (shared by editor and game). Zone without y/height spans the whole world height.
+ */
+
+import { DEFAULT_ZONE_PRIORITY, type DialogZone } from '../types/DialogTypes';
+
+/** Zone area in world coordinates */
+export interface ZoneRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Zone fields that define its area */
+type ZoneArea = Pick<DialogZone, 'x' | 'width' | 'y' | 'height'>;
+
+/**
+ * Check if zone has vertical bounds (otherwise it spans the whole world height)
+ */
+export function hasZoneVerticalBounds(zone: ZoneArea): zone is ZoneArea & { y: number; height: number } {
+  return zone.y !== undefined && zone.height !== undefined;
+}
+
+/**
+ * Get zone area in world coordinates
+ */
+export function getZoneRect(zone: ZoneArea, worldHeight: number): ZoneRect {
+  if (hasZoneVerticalBounds(zone)) {
+    return { x: zone.x, y: zone.y, width: zone.width, height: zone.height };
+  }
+  return { x: zone.x, y: 0, width: zone.width, height: worldHeight };
+}
+
+/**
+ * Check if world point is inside zone (edges included)
+ */
+export function isPointInZone(zone: ZoneArea, x: number, y: number, worldHeight: number): boolean {
+  const rect = getZoneRect(zone, worldHeight);
+  return x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+}
+
+/**
+ * Sort zones by the order they win when several match the player
+ * Higher priority first, on equal priority the smaller (more specific) zone
+ * first, then the zone added later. Original array is not changed.
+ */
+export function sortZonesByPriority(zones: DialogZone[], worldHeight: number): DialogZone[] {
+  const area = (zone: DialogZone) => {
+    const rect = getZoneRect(zone, worldHeight);
+    return rect.width * rect.height;
+  };
+  return zones
+    .map((zone, index) => ({ zone, index, area: area(zone) }))
+    .sort((a, b) =>
+      (b.zone.priority ?? DEFAULT_ZONE_PRIORITY) - (a.zone.priority ?? DEFAULT_ZONE_PRIORITY) ||
+      a.area - b.area ||
+      b.index - a.index
+    )
+    .map(entry => entry.zone);
+}
@@ -31,6 +31,13 @@ export const ERROR_CODES = {
   // Config errors
   MAP_CONFIG_LOAD_FAILED: 'MAP_CONFIG_LOAD_FAILED',
   MAP_CONFIG_INVALID: 'MAP_CONFIG_INVALID',
+  MAP_CONFIG_ENTITY_INVALID: 'MAP_CONFIG_ENTITY_INVALID',
+  TRANSLATION_FILE_INVALID: 'TRANSLATION_FILE_INVALID',
+  
+  // Storage errors
+  SCENE_STORAGE_FAILED: 'SCENE_STORAGE_FAILED',
+  SCENE_CONFLICT: 'SCENE_CONFLICT',
+  PREFERENCES_STORAGE_FAILED: 'PREFERENCES_STORAGE_FAILED',
   
   // Store errors
   STORE_UPDATE_FAILED: 'STORE_UPDATE_FAILED',
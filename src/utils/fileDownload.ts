@@ -0,0 +1,21 @@
+/**
+ * File Download - Saves generated text as a file in the browser
+ */
+
+/**
+ * Download text as a file
+ */
+export function downloadTextFile(content: string, fileName: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Release object URL after the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,35 @@
+/**
+ * Map Config File - Export and import of map configuration as JSON files
+ * Lets builder users ship a scene without copying JSON out of devtools
+ */
+
+import { parseMapConfig, type MapConfig } from '../data/mapConfig';
+import { downloadTextFile } from './fileDownload';
+
+/** Default file name for exported map configuration (matches public/config/map.json) */
+export const MAP_CONFIG_FILE_NAME = 'map.json';
+
+/**
+ * Download map configuration as a JSON file
+ */
+export function exportMapConfig(config: MapConfig, fileName: string = MAP_CONFIG_FILE_NAME): void {
+  downloadTextFile(JSON.stringify(config, null, 2), fileName, 'application/json');
+}
+
+/**
+ * Read map configuration from a user-selected file
+ * Entities are validated when the config is loaded to the builder (see reloadBuilder)
+ * Throws error if the file is not valid JSON or not a valid map config
+ */
+export async function importMapConfig(file: File): Promise<MapConfig> {
+  const text = await file.text();
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${file.name} is not a valid JSON file`);
+  }
+
+  return parseMapConfig(data);
+}
@@ -0,0 +1,259 @@
+/**
+ * Rich Text
+ * Small markup for dialog content, parsed into nodes rendered by RichText.svelte
+ *
+ * Markup:
+ *   [b]bold[/b]  [i]italic[/i]  [color=#e67e22]colored[/color]
+ *   [link=https://example.com]link[/link]  [icon=discord]
+ *   new line in content is a line break
+ *
+ * Content is never rendered as HTML, so pasted markup like <script> is shown
+ * as text. Tags with invalid values (unknown icon, link that is not http(s)
+ * or mailto, color that is not hex or a plain color name) are shown as text.
+ */
+
+import { getSocial } from '../data/socials';
+
+// ==================== Types ====================
+
+export type RichTextNode =
+  | { type: 'text'; text: string }
+  | { type: 'break' }
+  | { type: 'icon'; key: string; name: string; path: string }
+  | { type: 'bold'; children: RichTextNode[] }
+  | { type: 'italic'; children: RichTextNode[] }
+  | { type: 'color'; color: string; children: RichTextNode[] }
+  | { type: 'link'; url: string; children: RichTextNode[] };
+
+type ContainerNode = Extract<RichTextNode, { children: RichTextNode[] }>;
+type ContainerTag = 'b' | 'i' | 'color' | 'link';
+
+type RichTextToken =
+  | { type: 'text'; text: string }
+  | { type: 'open'; tag: ContainerTag; value: string; raw: string }
+  | { type: 'close'; tag: ContainerTag; raw: string }
+  | { type: 'icon'; value: string; raw: string };
+
+// ==================== Tokenizer ====================
+
+const TAG_PATTERN = /\[(\/?)(b|i|color|link|icon)(?:=([^\]\s]*))?\]/gi;
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const COLOR_NAME_PATTERN = /^[a-z]{3,20}$/i;
+
+/** Whether color can be used in style attribute */
+function isValidColor(color: string): boolean {
+  return HEX_COLOR_PATTERN.test(color) || COLOR_NAME_PATTERN.test(color);
+}
+
+/** Whether URL can be opened from dialog (no javascript: or data: URLs) */
+export function isSafeLinkUrl(url: string): boolean {
+  try {
+    return ['http:', 'https:', 'mailto:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/** Split content into text and valid tags */
+function tokenize(content: string): RichTextToken[] {
+  const tokens: RichTextToken[] = [];
+  let lastIndex = 0;
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    const last = tokens[tokens.length - 1];
+    if (last?.type === 'text') {
+      last.text += text;
+    } else {
+      tokens.push({ type: 'text', text });
+    }
+  };
+
+  for (const match of content.matchAll(TAG_PATTERN)) {
+    const [raw, slash, name, value = ''] = match;
+    const tag = name.toLowerCase();
+    pushText(content.slice(lastIndex, match.index));
+    lastIndex = match.index + raw.length;
+
+    if (tag === 'icon') {
+      if (!slash && getSocial(value.toLowerCase())) {
+        tokens.push({ type: 'icon', value: value.toLowerCase(), raw });
+      } else {
+        pushText(raw);
+      }
+    } else if (slash) {
+      tokens.push({ type: 'close', tag: tag as ContainerTag, raw });
+    } else if (
+      (tag === 'color' && isValidColor(value)) ||
+      (tag === 'link' && isSafeLinkUrl(value)) ||
+      ((tag === 'b' || tag === 'i') && !value)
+    ) {
+      tokens.push({ type: 'open', tag: tag as ContainerTag, value, raw });
+    } else {
+      pushText(raw);
+    }
+  }
+
+  pushText(content.slice(lastIndex));
+  return tokens;
+}
+
+// ==================== Parser ====================
+
+function createContainer(tag: ContainerTag, value: string): ContainerNode {
+  switch (tag) {
+    case 'b': return { type: 'bold', children: [] };
+    case 'i': return { type: 'italic', children: [] };
+    case 'color': return { type: 'color', color: value, children: [] };
+    case 'link': return { type: 'link', url: value, children: [] };
+  }
+}
+
+function pushTextNodes(target: RichTextNode[], text: string): void {
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (index > 0) target.push({ type: 'break' });
+    if (line) target.push({ type: 'text', text: line });
+  });
+}
+
+/**
+ * Parse dialog content into rich text nodes
+ * Unclosed tags end with the content, close tags without open tag are shown as text
+ */
+export function parseRichText(content: string): RichTextNode[] {
+  const root: RichTextNode[] = [];
+  const stack: { tag: ContainerTag; node: ContainerNode }[] = [];
+  const current = () => stack.length > 0 ? stack[stack.length - 1].node.children : root;
+
+  for (const token of tokenize(content)) {
+    switch (token.type) {
+      case 'text':
+        pushTextNodes(current(), token.text);
+        break;
+      case 'icon': {
+        const social = getSocial(token.value)!;
+        current().push({ type: 'icon', key: social.key, name: social.name, path: social.path });
+        break;
+      }
+      case 'open': {
+        // Links inside links would be invalid HTML
+        if (token.tag === 'link' && stack.some(entry => entry.tag === 'link')) {
+          pushTextNodes(current(), token.raw);
+          break;
+        }
+        const node = createContainer(token.tag, token.value);
+        current().push(node);
+        stack.push({ tag: token.tag, node });
+        break;
+      }
+      case 'close': {
+        const index = stack.map(entry => entry.tag).lastIndexOf(token.tag);
+        if (index === -1) {
+          pushTextNodes(current(), token.raw);
+        } else {
+          stack.length = index;
+        }
+        break;
+      }
+    }
+  }
+
+  return root;
+}
+
+// ==================== Helpers ====================
+
+/**
+ * Number of visible characters (icon and line break count as one)
+ * Used by typewriter playback
+ */
+export function getRichTextLength(nodes: RichTextNode[]): number {
+  return nodes.reduce((length, node) => {
+    switch (node.type) {
+      case 'text': return length + node.text.length;
+      case 'break':
+      case 'icon': return length + 1;
+      default: return length + getRichTextLength(node.children);
+    }
+  }, 0);
+}
+
+/**
+ * Keep only the first visible characters (formatting of kept text is preserved)
+ */
+export function truncateRichText(nodes: RichTextNode[], maxChars: number): RichTextNode[] {
+  const result: RichTextNode[] = [];
+  let remaining = maxChars;
+
+  for (const node of nodes) {
+    if (remaining <= 0) break;
+
+    if (node.type === 'text') {
+      result.push({ type: 'text', text: node.text.slice(0, remaining) });
+      remaining -= node.text.length;
+    } else if (node.type === 'break' || node.type === 'icon') {
+      result.push(node);
+      remaining -= 1;
+    } else {
+      result.push({ ...node, children: truncateRichText(node.children, remaining) });
+      remaining -= getRichTextLength(node.children);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Visible text of nodes (icons have no text)
+ */
+function getRichTextPlainText(nodes: RichTextNode[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text': return node.text;
+      case 'break': return '\n';
+      case 'icon': return '';
+      default: return getRichTextPlainText(node.children);
+    }
+  }).join('');
+}
+
+/**
+ * Content without markup (for labels, previews and length checks)
+ * Same text as rendered, so tags shown as text by parseRichText are kept
+ */
+export function stripRichText(content: string): string {
+  return getRichTextPlainText(parseRichText(content));
+}
+
+/**
+ * Open tags of content that are not closed at its end
+ * Used to continue formatting on the next dialog page
+ */
+export function getUnclosedRichTextTags(content: string): string {
+  const stack: RichTextToken[] = [];
+
+  for (const token of tokenize(content)) {
+    if (token.type === 'open') {
+      stack.push(token);
+    } else if (token.type === 'close') {
+      const index = stack.map(entry => entry.type === 'open' ? entry.tag : '').lastIndexOf(token.tag);
+      if (index !== -1) stack.length = index;
+    }
+  }
+
+  return stack.map(token => token.type === 'open' ? token.raw : '').join('');
+}
+
+/**
+ * Length of the tag starting at index (0 if there is no valid tag)
+ * Used to measure visible text when splitting content into pages
+ */
+export function getRichTextTagLength(content: string, index: number): number {
+  const pattern = new RegExp(TAG_PATTERN.source, 'iy');
+  pattern.lastIndex = index;
+  const match = pattern.exec(content);
+  if (!match) return 0;
+
+  const [token] = tokenize(match[0]);
+  return token && token.type !== 'text' ? match[0].length : 0;
+}
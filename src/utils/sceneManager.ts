@@ -3,11 +3,17 @@
  * Handles transitions between GameScene and BuilderScene
  */
 
-import type { MapConfig } from '../data/mapConfig';
-import { enterBuilderMode, exitBuilderMode } from '../stores/builderStores';
+import { DEFAULT_SCENE_ID, type MapConfig } from '../data/mapConfig';
+import { loadSceneConfig } from '../data/repositories';
+import { sanitizeMapConfig } from '../data/mapConfigValidation';
+import { enterBuilderMode, exitBuilderMode, checkForBuilderDraft, getBuilderSceneId } from '../stores/builderStores';
+import { setCurrentSceneId } from '../stores/sceneStores';
+import { handleError, createError, ERROR_CODES } from './errorHandler';
 import { saveBuilderCameraPosition, consumeSavedBuilderCameraPosition, resetGameWorldDimensions } from '../stores/gameStores';
 import { SCENE_KEYS } from '../constants/sceneKeys';
+import { resetDialogTriggerSession } from '../managers/game/DialogTriggerTracker';
 import type { BuilderScene } from '../scenes/BuilderScene';
+import type { GameScene } from '../scenes/GameScene';
 
 let gameInstance: Phaser.Game | null = null;
 
@@ -64,8 +70,12 @@ export function switchToBuilder(mapConfig: MapConfig): boolean {
     // Check if there's a saved builder camera position to restore
     const savedBuilderPos = consumeSavedBuilderCameraPosition();
     
-    // Enter builder mode with current config
-    enterBuilderMode(mapConfig);
+    // Enter builder mode with current config of the scene shown in game
+    const sceneId: string = gameScene.getSceneId?.() ?? DEFAULT_SCENE_ID;
+    enterBuilderMode(mapConfig, sceneId);
+    
+    // Offer recovery of unsaved work from a previous session
+    checkForBuilderDraft();
     
     // Start builder scene with saved position
     gameInstance.scene.start(SCENE_KEYS.BUILDER, { 
@@ -109,8 +119,11 @@ export function switchToGame(): boolean {
     exitBuilderMode();
     
     console.log('[SceneManager] Starting game scene...');
-    // Start game scene with builder config
-    gameInstance.scene.start(SCENE_KEYS.GAME, { useBuilderConfig: true });
+    // Test play starts with no dialogs shown yet
+    resetDialogTriggerSession(getBuilderSceneId());
+
+    // Start game scene with builder config of the edited scene
+    gameInstance.scene.start(SCENE_KEYS.GAME, { sceneId: getBuilderSceneId(), useBuilderConfig: true });
     
     console.log('[SceneManager] switchToGame completed successfully');
     return true;
@@ -120,6 +133,75 @@ export function switchToGame(): boolean {
   }
 }
 
+/**
+ * Replace the config edited in BuilderScene (e.g. after importing a file or restoring a draft)
+ * Config is validated, entities with errors are skipped
+ * Restarts the builder scene so all entities are recreated from the new config
+ */
+export function reloadBuilder(config: MapConfig): boolean {
+  if (!gameInstance) {
+    console.error('Scene manager not initialized');
+    return false;
+  }
+
+  try {
+    // Fatal issues are reported by sanitizeMapConfig, the current config stays
+    const mapConfig = sanitizeMapConfig(config);
+
+    // Enter builder mode with new config for the same scene (resets selection)
+    enterBuilderMode(mapConfig, getBuilderSceneId());
+
+    // Restart builder scene (camera is centered on player start of new config)
+    gameInstance.scene.start(SCENE_KEYS.BUILDER, { config: mapConfig });
+
+    return true;
+  } catch (error) {
+    console.error('Failed to reload builder:', error);
+    return false;
+  }
+}
+
+/**
+ * Open another scene from the library in BuilderScene
+ * Unsaved changes of the current scene stay in its draft
+ * @returns Whether the scene was opened
+ */
+export async function openSceneInBuilder(sceneId: string): Promise<boolean> {
+  if (!gameInstance) {
+    console.error('Scene manager not initialized');
+    return false;
+  }
+
+  let mapConfig: MapConfig;
+  try {
+    mapConfig = await loadSceneConfig(sceneId);
+  } catch (error) {
+    handleError(createError(
+      ERROR_CODES.SCENE_STORAGE_FAILED,
+      'Failed to open scene',
+      'error',
+      { sceneId },
+      error instanceof Error ? error : new Error(String(error))
+    ));
+    return false;
+  }
+
+  try {
+    // Stop first, so autosave of the previous scene writes its last changes
+    gameInstance.scene.stop(SCENE_KEYS.BUILDER);
+
+    enterBuilderMode(mapConfig, sceneId);
+    setCurrentSceneId(sceneId);
+    checkForBuilderDraft();
+
+    gameInstance.scene.start(SCENE_KEYS.BUILDER, { config: mapConfig });
+    return true;
+  } catch (error) {
+    console.error('Failed to open scene in builder:', error);
+    return false;
+  }
+}
+
 /**
  * Reset builder camera zoom to fit-to-screen
  */
@@ -134,6 +216,20 @@ export function resetBuilderZoom(): void {
   }
 }
 
+/**
+ * Put collected items of the shown scene back (inventory starts over)
+ */
+export function resetCollectedItems(): void {
+  if (!gameInstance) return;
+  
+  try {
+    const gameScene = gameInstance.scene.getScene(SCENE_KEYS.GAME) as GameScene;
+    gameScene?.resetInventory();
+  } catch (error) {
+    console.error('Failed to reset collected items:', error);
+  }
+}
+
 /**
  * Start GameScene (called after background selection)
  */
@@ -20,6 +20,12 @@ export interface DragCallbacks {
   onDragEnd?: (x: number, y: number) => void;
   /** Check if this sprite is currently selected (required for drag) */
   isSelected?: () => boolean;
+  /**
+   * Check if this sprite is in the group selection
+   * Providing it makes the sprite group-selectable: Shift-clicks and clicks on group
+   * members are left to BuilderGroupSelectionController
+   */
+  isInGroup?: () => boolean;
 }
 
 export interface DragConstraints {
@@ -176,6 +182,14 @@ export function setupSpriteInteraction(config: SpriteInteractionConfig): () => v
       return;
     }
     
+    // Group selection (Shift-click toggle, group drag) is handled by BuilderGroupSelectionController
+    if (callbacks.isInGroup) {
+      const shiftKey = (pointer.event as MouseEvent | undefined)?.shiftKey ?? false;
+      if (shiftKey || callbacks.isInGroup()) {
+        return;
+      }
+    }
+    
     // Check for double-click FIRST - if returns true, don't start drag or select
     if (callbacks.onDoubleClick?.()) {
       return;
@@ -303,9 +317,10 @@ export function setupSpriteInteraction(config: SpriteInteractionConfig): () => v
 
   const endDrag = () => {
     isDragging = false;
+    // Commit final position before clearing drag state, so the whole drag is one undo step
+    callbacks.onDragEnd?.(sprite.x, sprite.y);
     scene.data.set('isDraggingItem', false);
     setDraggingInBuilder(false);
-    callbacks.onDragEnd?.(sprite.x, sprite.y);
   };
 
   // Attach event handlers
@@ -0,0 +1,325 @@
+/**
+ * Translation File - Export and import of scene translations
+ * XLIFF 2.0 for CAT tools and gettext PO for PO editors (see data/translations.ts)
+ */
+
+import type { ImportedTranslation, TranslationUnit } from '../data/translations';
+import { isValidLanguageCode, type Language } from '../types/Language';
+import { downloadTextFile } from './fileDownload';
+
+/** Supported translation file formats */
+export type TranslationFormat = 'xliff' | 'po';
+
+/** Formats offered in the builder */
+export const TRANSLATION_FORMATS: { format: TranslationFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'xliff', label: 'XLIFF 2.0', extension: 'xlf', mimeType: 'application/xliff+xml' },
+  { format: 'po', label: 'Gettext PO', extension: 'po', mimeType: 'text/x-gettext-translation' },
+];
+
+/** File extensions accepted by import */
+export const TRANSLATION_FILE_ACCEPT = '.xlf,.xliff,.po';
+
+/** Note for translators on units whose source changed since translation */
+const STALE_NOTE = 'Source text changed since this translation, please review';
+
+/**
+ * Translations read from a file
+ */
+export interface TranslationFileData {
+  /** Null if the file doesn't say (PO without X-Source-Language) */
+  sourceLanguage: Language | null;
+  targetLanguage: Language;
+  entries: ImportedTranslation[];
+}
+
+// ==================== XLIFF 2.0 ====================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Write units as XLIFF 2.0 document
+ * Untranslated and stale units have state 'initial', stale ones keep their
+ * target and get a note
+ */
+export function serializeXliff(units: TranslationUnit[], sourceLanguage: Language, targetLanguage: Language, original: string): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${escapeXml(sourceLanguage)}" trgLang="${escapeXml(targetLanguage)}">`,
+    `  <file id="scene" original="${escapeXml(original)}">`,
+  ];
+
+  for (const unit of units) {
+    lines.push(`    <unit id="${escapeXml(unit.id)}">`);
+    lines.push('      <notes>');
+    lines.push(`        <note category="location">${escapeXml(unit.note)}</note>`);
+    if (unit.state === 'stale') {
+      lines.push(`        <note category="review">${STALE_NOTE}</note>`);
+    }
+    lines.push('      </notes>');
+    lines.push(`      <segment state="${unit.state === 'translated' ? 'translated' : 'initial'}">`);
+    lines.push(`        <source xml:space="preserve">${escapeXml(unit.source)}</source>`);
+    if (unit.target) {
+      lines.push(`        <target xml:space="preserve">${escapeXml(unit.target)}</target>`);
+    }
+    lines.push('      </segment>');
+    lines.push('    </unit>');
+  }
+
+  lines.push('  </file>', '</xliff>', '');
+  return lines.join('\n');
+}
+
+/**
+ * Get text of source or target of all segments of a unit (in document order)
+ */
+function getUnitText(unit: Element, part: 'source' | 'target'): string {
+  return Array.from(unit.children)
+    .filter(child => child.localName === 'segment' || child.localName === 'ignorable')
+    .map(child => Array.from(child.children).find(el => el.localName === part)?.textContent ?? '')
+    .join('');
+}
+
+/**
+ * Check whether all segments of a unit are past state 'initial' (translated, reviewed or final)
+ */
+function isUnitConfirmed(unit: Element): boolean {
+  const segments = Array.from(unit.children).filter(child => child.localName === 'segment');
+  return segments.length > 0 && segments.every(segment => (segment.getAttribute('state') ?? 'initial') !== 'initial');
+}
+
+/**
+ * Read XLIFF 2.0 document
+ * Throws error if the document is not valid XLIFF 2.0
+ */
+export function parseXliff(text: string): TranslationFileData {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'xliff') {
+    throw new Error('File is not a valid XLIFF document');
+  }
+  if (!root.getAttribute('version')?.startsWith('2.')) {
+    throw new Error(`XLIFF version ${root.getAttribute('version') ?? '?'} is not supported, use XLIFF 2.0`);
+  }
+
+  const sourceLanguage = root.getAttribute('srcLang');
+  const targetLanguage = root.getAttribute('trgLang');
+  if (!isValidLanguageCode(sourceLanguage) || !isValidLanguageCode(targetLanguage)) {
+    throw new Error('XLIFF file must have valid srcLang and trgLang');
+  }
+
+  const entries = Array.from(doc.getElementsByTagNameNS('*', 'unit')).map(unit => ({
+    id: unit.getAttribute('id') ?? '',
+    source: getUnitText(unit, 'source'),
+    target: getUnitText(unit, 'target'),
+    confirmed: isUnitConfirmed(unit),
+  }));
+
+  return { sourceLanguage, targetLanguage, entries };
+}
+
+// ==================== Gettext PO ====================
+
+function escapePo(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n');
+}
+
+const PO_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\' };
+
+function unescapePo(text: string): string {
+  return text.replace(/\\(.)/g, (match, char: string) => PO_ESCAPES[char] ?? match);
+}
+
+/**
+ * Write PO keyword with a string (multi-line strings are split after newlines)
+ */
+function formatPoString(keyword: string, text: string): string[] {
+  if (!text.includes('\n')) return [`${keyword} "${escapePo(text)}"`];
+
+  const parts = text.split(/(?<=\n)/);
+  return [`${keyword} ""`, ...parts.map(part => `"${escapePo(part)}"`)];
+}
+
+/**
+ * Write units as gettext PO file
+ * Unit ID is the message context, stale units are marked fuzzy
+ */
+export function serializePo(units: TranslationUnit[], sourceLanguage: Language, targetLanguage: Language, original: string): string {
+  const lines = [
+    `# Translation of ${original.replace(/\n/g, ' ')} (${sourceLanguage} -> ${targetLanguage})`,
+    'msgid ""',
+    'msgstr ""',
+    `"Project-Id-Version: ${escapePo(original)}\\n"`,
+    `"Language: ${targetLanguage}\\n"`,
+    '"MIME-Version: 1.0\\n"',
+    '"Content-Type: text/plain; charset=UTF-8\\n"',
+    '"Content-Transfer-Encoding: 8bit\\n"',
+    `"X-Source-Language: ${sourceLanguage}\\n"`,
+  ];
+
+  for (const unit of units) {
+    lines.push('');
+    lines.push(`#. ${unit.note}`);
+    if (unit.state === 'stale') {
+      lines.push(`#. ${STALE_NOTE}`);
+      lines.push('#, fuzzy');
+    }
+    lines.push(...formatPoString('msgctxt', unit.id));
+    lines.push(...formatPoString('msgid', unit.source));
+    lines.push(...formatPoString('msgstr', unit.target));
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+interface PoEntry {
+  flags: string[];
+  msgctxt: string | null;
+  msgid: string;
+  msgstr: string;
+}
+
+/**
+ * Split PO file into entries (obsolete entries and plural forms are skipped)
+ */
+function parsePoEntries(text: string): PoEntry[] {
+  const entries: PoEntry[] = [];
+  let entry: PoEntry = { flags: [], msgctxt: null, msgid: '', msgstr: '' };
+  let field: 'msgctxt' | 'msgid' | 'msgstr' | 'ignored' | null = null;
+  let hasMsgstr = false;
+
+  // Entry ends with an empty line, or with a comment or keyword after its msgstr
+  const finishEntry = () => {
+    if (field !== null) entries.push(entry);
+    entry = { flags: [], msgctxt: null, msgid: '', msgstr: '' };
+    field = null;
+    hasMsgstr = false;
+  };
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+
+    if (line === '') {
+      finishEntry();
+      return;
+    }
+    if (line.startsWith('#~')) return;
+    if (line.startsWith('#')) {
+      if (hasMsgstr) finishEntry();
+      if (line.startsWith('#,')) {
+        entry.flags.push(...line.slice(2).split(',').map(flag => flag.trim()));
+      }
+      return;
+    }
+
+    const keyword = line.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+"(.*)"$/);
+    if (keyword) {
+      const [, name, value] = keyword;
+      if (hasMsgstr && (name === 'msgctxt' || name === 'msgid')) finishEntry();
+
+      if (name === 'msgctxt' || name === 'msgid') {
+        entry[name] = unescapePo(value);
+        field = name;
+      } else if (name === 'msgstr' || name === 'msgstr[0]') {
+        entry.msgstr = unescapePo(value);
+        field = 'msgstr';
+        hasMsgstr = true;
+      } else {
+        field = 'ignored';
+      }
+      return;
+    }
+
+    const continuation = line.match(/^"(.*)"$/);
+    if (continuation && field !== null) {
+      if (field !== 'ignored') {
+        entry[field] = (entry[field] ?? '') + unescapePo(continuation[1]);
+      }
+      return;
+    }
+
+    throw new Error(`Invalid PO syntax on line ${index + 1}`);
+  });
+
+  finishEntry();
+  return entries;
+}
+
+/**
+ * Read gettext PO file
+ * Fuzzy entries count as untranslated (as in gettext), other translated
+ * entries as confirmed
+ * Throws error if the file can't be parsed or has no Language header
+ */
+export function parsePo(text: string): TranslationFileData {
+  const entries = parsePoEntries(text);
+  const header = entries.find(entry => entry.msgid === '' && entry.msgctxt === null);
+  const headerFields = new Map(
+    (header?.msgstr ?? '')
+      .split('\n')
+      .map(line => line.split(/:\s*/))
+      .filter(parts => parts.length >= 2)
+      .map(([name, ...value]) => [name.trim().toLowerCase(), value.join(':').trim()] as const)
+  );
+
+  const targetLanguage = headerFields.get('language')?.replace('_', '-');
+  if (!isValidLanguageCode(targetLanguage)) {
+    throw new Error('PO file must have a valid Language header');
+  }
+  const sourceLanguage = headerFields.get('x-source-language') ?? null;
+
+  return {
+    sourceLanguage: isValidLanguageCode(sourceLanguage) ? sourceLanguage : null,
+    targetLanguage,
+    entries: entries
+      .filter(entry => entry.msgctxt !== null)
+      .map(entry => ({
+        id: entry.msgctxt ?? '',
+        source: entry.msgid,
+        target: entry.flags.includes('fuzzy') ? '' : entry.msgstr,
+        confirmed: !entry.flags.includes('fuzzy'),
+      })),
+  };
+}
+
+// ==================== Files ====================
+
+/**
+ * Download units as a translation file
+ * @param baseName - File name without language and extension (usually scene name)
+ */
+export function exportTranslationFile(
+  units: TranslationUnit[],
+  format: TranslationFormat,
+  sourceLanguage: Language,
+  targetLanguage: Language,
+  baseName: string
+): void {
+  const definition = TRANSLATION_FORMATS.find(f => f.format === format) ?? TRANSLATION_FORMATS[0];
+  const content = format === 'po'
+    ? serializePo(units, sourceLanguage, targetLanguage, baseName)
+    : serializeXliff(units, sourceLanguage, targetLanguage, baseName);
+  const safeName = baseName.replace(/[^\w-]+/g, '_') || 'scene';
+
+  downloadTextFile(content, `${safeName}.${targetLanguage}.${definition.extension}`, definition.mimeType);
+}
+
+/**
+ * Read translations from a user-selected XLIFF or PO file
+ * Throws error if the file can't be read
+ */
+export async function importTranslationFile(file: File): Promise<TranslationFileData> {
+  const text = await file.text();
+  return /\.po$/i.test(file.name) ? parsePo(text) : parseXliff(text);
+}